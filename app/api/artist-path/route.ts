@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_MARKET, isMarket, isTrackDiscoveryStrategy, TRACK_DISCOVERY_STRATEGIES } from '../../../lib/spotify';
+import { getAppSpotifyClient } from '../../../lib/spotifyClient';
+import { findArtistPath } from '../../../lib/artistPath';
+import { parseNonNegativeInt } from '../../../lib/apiParams';
+import { errorResponse, ValidationError } from '../../../lib/apiErrors';
+
+const DEFAULT_MAX_DEPTH = 4;
+const MAX_MAX_DEPTH = 6;
+const DEFAULT_MAX_REQUESTS = 30;
+const MAX_MAX_REQUESTS = 100;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const fromId = searchParams.get('from');
+  const toId = searchParams.get('to');
+  const maxDepth = parseNonNegativeInt(searchParams.get('maxDepth'), DEFAULT_MAX_DEPTH);
+  const maxRequests = parseNonNegativeInt(searchParams.get('maxRequests'), DEFAULT_MAX_REQUESTS);
+  const strategy = searchParams.get('strategy') || 'search';
+  const market = searchParams.get('market')?.toUpperCase() || DEFAULT_MARKET;
+
+  if (!fromId || !toId) {
+    return errorResponse(new ValidationError('Both "from" and "to" artist IDs are required'));
+  }
+  if (maxDepth === null || maxDepth < 1 || maxDepth > MAX_MAX_DEPTH) {
+    return errorResponse(new ValidationError(`maxDepth must be an integer between 1 and ${MAX_MAX_DEPTH}`));
+  }
+  if (maxRequests === null || maxRequests < 1 || maxRequests > MAX_MAX_REQUESTS) {
+    return errorResponse(new ValidationError(`maxRequests must be an integer between 1 and ${MAX_MAX_REQUESTS}`));
+  }
+  if (!isTrackDiscoveryStrategy(strategy)) {
+    return errorResponse(new ValidationError(`strategy must be one of: ${TRACK_DISCOVERY_STRATEGIES.join(', ')}`));
+  }
+  if (market !== undefined && !isMarket(market)) {
+    return errorResponse(new ValidationError('market must be a two-letter country code'));
+  }
+
+  console.log(`[API /artist-path] Searching path ${fromId} -> ${toId} (maxDepth: ${maxDepth}, maxRequests: ${maxRequests}, market: ${market ?? 'none'})`);
+
+  try {
+    const spotifyClient = getAppSpotifyClient();
+    const [fromArtist, toArtist] = await Promise.all([
+      spotifyClient.getArtist(fromId),
+      spotifyClient.getArtist(toId),
+    ]);
+
+    const result = await findArtistPath(
+      { id: fromArtist.id, name: fromArtist.name },
+      { id: toArtist.id, name: toArtist.name },
+      { maxDepth, maxRequests, strategy, market }
+    );
+
+    if (!result.found) {
+      console.log(`[API /artist-path] No path found (${result.reason}) after ${result.requestsUsed} request(s).`);
+    }
+    return NextResponse.json(result);
+
+  } catch (error: unknown) {
+    console.error(`[API /artist-path] Error searching path ${fromId} -> ${toId}:`, error);
+    return errorResponse(error, 'Failed to search for a collaboration path');
+  }
+}
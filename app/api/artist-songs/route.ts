@@ -1,30 +1,36 @@
 import { NextResponse } from 'next/server';
-import { getSpotifyClient } from '../../../lib/spotify'; // Use relative path
-
-// Define the structure for a simplified Spotify Track
-interface SpotifyTrack {
-  id: string;
-  name: string;
-  artists: { id: string; name: string }[];
-  album: { name: string; images?: { url: string }[] };
-  uri: string;
-  // Add other relevant fields if needed
-}
+import { DEFAULT_MARKET, findSongsByArtist, invalidateCachedSongs, isMarket, isTrackDiscoveryStrategy, TRACK_DISCOVERY_STRATEGIES } from '../../../lib/spotify'; // Use relative path
+import type { CacheStatus } from '../../../lib/trackCache';
+import { errorResponse, ValidationError } from '../../../lib/apiErrors';
+import { isTrackVersionType, TRACK_VERSION_TYPES } from '../../../lib/trackVersions';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const artistId = searchParams.get('artistId');
   const artistName = searchParams.get('artistName'); // Pass name for filtering/logging
+  const strategy = searchParams.get('strategy') || 'search'; // Track discovery strategy
+  const refresh = searchParams.get('refresh') === 'true'; // Bypass the track cache
+  // Comma-separated version types to include (e.g. "original,live"); all by default
+  const versions = searchParams.get('versions')?.split(',').map(type => type.trim()).filter(Boolean) ?? null;
+  // Country code to limit results to tracks playable there (the user's country, sent by the page)
+  const market = searchParams.get('market')?.toUpperCase() || DEFAULT_MARKET;
 
   if (!artistId || !artistName) {
-    return NextResponse.json({ error: 'Artist ID and Artist Name are required' }, { status: 400 });
+    return errorResponse(new ValidationError('Artist ID and Artist Name are required'));
+  }
+  if (!isTrackDiscoveryStrategy(strategy)) {
+    return errorResponse(new ValidationError(`strategy must be one of: ${TRACK_DISCOVERY_STRATEGIES.join(', ')}`));
+  }
+  if (versions && !versions.every(isTrackVersionType)) {
+    return errorResponse(new ValidationError(`versions must be a comma-separated list of: ${TRACK_VERSION_TYPES.map(type => type.id).join(', ')}`));
+  }
+  if (market !== undefined && !isMarket(market)) {
+    return errorResponse(new ValidationError('market must be a two-letter country code'));
   }
 
-  console.log(`[API /artist-songs] Fetching songs for ${artistName} (ID: ${artistId})`);
+  console.log(`[API /artist-songs] Fetching songs for ${artistName} (ID: ${artistId}) using '${strategy}' discovery (market: ${market ?? 'none'})`);
 
   try {
-    const spotifyClient = await getSpotifyClient(); // Get authenticated client
-
     // Placeholder for fetching logic using artistId and artistName
     // This needs to replicate the pagination and filtering logic from find_all_songs_by_artist
     // For now, let's just return a placeholder response
@@ -36,20 +42,48 @@ export async function GET(request: Request) {
     // await new Promise(resolve => setTimeout(resolve, 1000));
     // --- End of placeholder logic ---
 
-    // Call the function from the Spotify client library
-    const songs = await spotifyClient.findSongsByArtist(artistId, artistName);
+    // Call the track discovery function (served from the track cache when possible)
+    let cacheStatus: CacheStatus = 'miss';
+    const allSongs = await findSongsByArtist(artistId, artistName, strategy, {
+      refresh,
+      market,
+      onCacheStatus: status => { cacheStatus = status; },
+    });
+    const songs = versions ? allSongs.filter(song => versions.includes(song.versionType!)) : allSongs;
 
-    console.log(`[API /artist-songs] Found ${songs.length} songs for ${artistName}.`);
-    return NextResponse.json({ songs });
+    console.log(`[API /artist-songs] Found ${songs.length} songs for ${artistName} (cache: ${cacheStatus}${versions ? `, versions: ${versions.join(',')}` : ''}).`);
+    return NextResponse.json({ songs }, { headers: { 'X-Cache-Status': cacheStatus } });
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error(`[API /artist-songs] Error fetching songs for artist ${artistId}:`, error);
-    // Provide a more specific error message if possible
-    const errorMessage = error.message || 'Failed to fetch songs from Spotify';
-    let status = 500;
-    if (error.response?.status) { // Check if it's an Axios/fetch error with status
-        status = error.response.status;
-    }
-    return NextResponse.json({ error: errorMessage }, { status });
-  }
-}
\ No newline at end of file
+    // Spotify failures carry their own status (not found, rate limited, upstream...)
+    return errorResponse(error, 'Failed to fetch songs from Spotify');
+  }
+}
+
+// Manually invalidate cached tracks for an artist (optionally for a single strategy and/or market)
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const artistId = searchParams.get('artistId');
+  const strategy = searchParams.get('strategy');
+  const market = searchParams.get('market')?.toUpperCase() || DEFAULT_MARKET;
+
+  if (!artistId) {
+    return errorResponse(new ValidationError('Artist ID is required'));
+  }
+  if (strategy !== null && !isTrackDiscoveryStrategy(strategy)) {
+    return errorResponse(new ValidationError(`strategy must be one of: ${TRACK_DISCOVERY_STRATEGIES.join(', ')}`));
+  }
+  if (market !== undefined && !isMarket(market)) {
+    return errorResponse(new ValidationError('market must be a two-letter country code'));
+  }
+
+  try {
+    const removed = await invalidateCachedSongs(artistId, strategy ?? undefined, market);
+    console.log(`[API /artist-songs] Invalidated ${removed} cache entr${removed === 1 ? 'y' : 'ies'} for artist ${artistId}.`);
+    return NextResponse.json({ invalidated: removed });
+  } catch (error: unknown) {
+    console.error(`[API /artist-songs] Error invalidating cache for artist ${artistId}:`, error);
+    return errorResponse(error, 'Failed to invalidate cached songs');
+  }
+}
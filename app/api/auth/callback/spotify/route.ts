@@ -1,34 +1,35 @@
 import { type NextRequest, NextResponse } from 'next/server';
-import { getToken } from '@/lib/spotifyAuth';
+import { getAppSpotifyClient } from '@/lib/spotifyClient';
+import { createSession, destroySession } from '@/lib/session';
+import { AUTH_STATE_COOKIE, CODE_VERIFIER_COOKIE, statesMatch } from '@/lib/spotifyAuth';
 import { cookies } from 'next/headers';
 
 // Ensure environment variables are defined
 const clientId = process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID;
 const redirectUri = process.env.NEXT_PUBLIC_SPOTIFY_REDIRECT_URI;
-const cookieSecret = process.env.COOKIE_SECRET; // For signing cookies (RECOMMENDED)
 
 if (!clientId || !redirectUri) {
   throw new Error('Missing Spotify environment variables: NEXT_PUBLIC_SPOTIFY_CLIENT_ID or NEXT_PUBLIC_SPOTIFY_REDIRECT_URI');
 }
 
 export async function GET(request: NextRequest) {
-  const cookieStore = cookies();
+  const cookieStore = await cookies();
   const searchParams = request.nextUrl.searchParams;
   const code = searchParams.get('code');
   const error = searchParams.get('error');
-  const state = searchParams.get('state'); // Optional: Get state if you used it
-  const storedVerifier = cookieStore.get('spotify_code_verifier')?.value;
-  const storedState = cookieStore.get('spotify_auth_state')?.value; // Optional: Get state cookie if you used it
+  const state = searchParams.get('state');
+  const storedVerifier = cookieStore.get(CODE_VERIFIER_COOKIE)?.value;
+  const storedState = cookieStore.get(AUTH_STATE_COOKIE)?.value;
 
-  // Clear the state and verifier cookies immediately after retrieving them
-  cookieStore.delete('spotify_code_verifier');
-  cookieStore.delete('spotify_auth_state'); // Optional: Clear state cookie
+  // Clear the state and verifier cookies immediately after retrieving them (single use)
+  cookieStore.delete(CODE_VERIFIER_COOKIE);
+  cookieStore.delete(AUTH_STATE_COOKIE);
 
-  // Optional: Validate state parameter for CSRF protection
-  // if (!state || !storedState || state !== storedState) {
-  //   console.error('State mismatch error', { state, storedState });
-  //   return NextResponse.redirect(new URL('/login?error=state_mismatch', request.url));
-  // }
+  // Validate the state parameter for CSRF protection (set by /api/auth/login)
+  if (!statesMatch(state, storedState)) {
+    console.error('State mismatch error', { hasState: !!state, hasStoredState: !!storedState });
+    return NextResponse.redirect(new URL('/login?error=state_mismatch', request.url));
+  }
 
   if (error) {
     console.error("Spotify Auth Callback Error:", error);
@@ -47,32 +48,16 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const tokenData = await getToken(code, storedVerifier, clientId!, redirectUri!);
+    const tokenData = await getAppSpotifyClient().exchangeAuthorizationCode(code, storedVerifier, redirectUri!);
 
     if (tokenData.access_token) {
-      const maxAge = tokenData.expires_in; // Use expires_in directly for cookie maxAge
-      const secure = process.env.NODE_ENV === 'production'; // Use secure cookies in production
-
-      // Set tokens in secure, HttpOnly cookies
-      cookieStore.set('spotify_access_token', tokenData.access_token, {
-        httpOnly: true,
-        secure: secure,
-        maxAge: maxAge,
-        path: '/',
-        sameSite: 'lax', // Or 'strict' if appropriate
-        // domain: 'yourdomain.com' // Optional: Set domain for production
-      });
-
-      if (tokenData.refresh_token) {
-        cookieStore.set('spotify_refresh_token', tokenData.refresh_token, {
-          httpOnly: true,
-          secure: secure,
-          path: '/',
-          sameSite: 'lax',
-          // domain: 'yourdomain.com' // Optional: Set domain for production
-          // No maxAge here, refresh tokens are typically longer-lived or persistent
-        });
-      }
+      // Keep the tokens server-side; the browser only gets an encrypted session cookie.
+      // Re-consent (e.g. for additional scopes) replaces any previous session.
+      await destroySession();
+      await createSession(tokenData);
+      // Drop raw token cookies set by earlier versions of this route
+      cookieStore.delete('spotify_access_token');
+      cookieStore.delete('spotify_refresh_token');
 
       // Redirect to the search page upon successful authentication
       return NextResponse.redirect(new URL('/search', request.url));
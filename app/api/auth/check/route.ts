@@ -1,15 +1,33 @@
-import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getSessionManager } from '@/lib/session';
+import { unavailableFeatures } from '@/lib/spotifyAuth';
+import { withUserSpotify } from '@/lib/userSpotify';
 
-export async function GET() {
-  const cookieStore = await cookies();
-  const accessToken = cookieStore.get('spotify_access_token')?.value;
+// Validates the session by fetching the user's profile (withUserSpotify refreshes the token
+// when it is about to expire or rejected) and reports what the granted scopes allow
+const checkSession = withUserSpotify(async (_request, { client, session }) => {
+  const profile = await client.getCurrentUserProfile();
+  // Re-read the session in case the token was refreshed during the request
+  const current = (await getSessionManager().get(session.id)) ?? session;
 
-  if (!accessToken) {
+  return NextResponse.json({
+    authenticated: true,
+    user: {
+      id: profile.id,
+      displayName: profile.display_name,
+      country: profile.country ?? null,
+    },
+    scopes: current.scopes,
+    expiresAt: new Date(current.accessTokenExpiresAt).toISOString(),
+    unavailableFeatures: unavailableFeatures(current.scopes).map(({ id, label, missingScopes }) => ({ id, label, missingScopes })),
+  });
+});
+
+export async function GET(request: NextRequest) {
+  const response = await checkSession(request, undefined);
+  // No session, or one that could not be refreshed: not an error for this endpoint
+  if (response.status === 401) {
     return NextResponse.json({ authenticated: false });
   }
-
-  // Optional: You could also validate the token by making a request to Spotify
-  // This simple check just verifies the token exists
-  return NextResponse.json({ authenticated: true });
-}
\ No newline at end of file
+  return response;
+}
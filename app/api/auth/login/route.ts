@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAppSpotifyClient } from '@/lib/spotifyClient';
+import { getSession } from '@/lib/session';
+import {
+  AUTH_COOKIE_MAX_AGE_SECONDS,
+  AUTH_STATE_COOKIE,
+  CODE_VERIFIER_COOKIE,
+  SPOTIFY_LOGIN_SCOPES,
+  codeChallengeFor,
+  generateCodeVerifier,
+  generateState,
+  isKnownScope,
+} from '@/lib/spotifyAuth';
+
+const redirectUri = process.env.NEXT_PUBLIC_SPOTIFY_REDIRECT_URI;
+
+// Starts the authorization code flow with PKCE: the verifier and CSRF state stay in
+// httpOnly cookies and the browser is redirected to Spotify's authorize page.
+// `?scopes=` (space or comma separated) asks for optional scopes on top of the default ones
+// and those already granted, for incremental consent.
+export async function GET(request: NextRequest) {
+  if (!redirectUri) {
+    console.error("[API /auth/login] Missing NEXT_PUBLIC_SPOTIFY_REDIRECT_URI.");
+    return NextResponse.redirect(new URL('/login?error=configuration_error', request.url));
+  }
+
+  const extraScopes = (request.nextUrl.searchParams.get('scopes') || '').split(/[\s,]+/).filter(Boolean);
+  const unknownScopes = extraScopes.filter(scope => !isKnownScope(scope));
+  if (unknownScopes.length > 0) {
+    console.error("[API /auth/login] Unknown scopes requested:", unknownScopes);
+    return NextResponse.redirect(new URL('/login?error=invalid_scope', request.url));
+  }
+  const grantedScopes = (await getSession())?.scopes ?? [];
+  const scopes = Array.from(new Set([...SPOTIFY_LOGIN_SCOPES, ...grantedScopes, ...extraScopes]));
+
+  const codeVerifier = generateCodeVerifier();
+  const state = generateState();
+
+  let authorizeUrl: string;
+  try {
+    authorizeUrl = getAppSpotifyClient().getAuthorizeUrl({
+      redirectUri,
+      scopes,
+      codeChallenge: codeChallengeFor(codeVerifier),
+      state,
+    });
+  } catch (error: unknown) {
+    console.error("[API /auth/login] Could not build authorize URL:", error);
+    return NextResponse.redirect(new URL('/login?error=configuration_error', request.url));
+  }
+
+  const cookieStore = await cookies();
+  const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: AUTH_COOKIE_MAX_AGE_SECONDS, // Only needed until the callback
+    path: '/',
+    sameSite: 'lax' as const, // Sent on the top-level redirect back from Spotify
+  };
+  cookieStore.set(CODE_VERIFIER_COOKIE, codeVerifier, cookieOptions);
+  cookieStore.set(AUTH_STATE_COOKIE, state, cookieOptions);
+
+  console.log("[API /auth/login] Redirecting to Spotify authorize page.");
+  return NextResponse.redirect(authorizeUrl);
+}
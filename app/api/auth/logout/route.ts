@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { destroySession } from '@/lib/session';
+
+// Ends the current session: removes it from the session store and clears the cookie
+export async function POST() {
+  await destroySession();
+  console.log("[API /auth/logout] Session destroyed.");
+  return NextResponse.json({ success: true });
+}
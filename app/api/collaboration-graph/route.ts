@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_MARKET, isMarket, isTrackDiscoveryStrategy, TRACK_DISCOVERY_STRATEGIES } from '../../../lib/spotify';
+import { getAppSpotifyClient } from '../../../lib/spotifyClient';
+import { crawlCollaborationGraph } from '../../../lib/collaborationCrawler';
+import { parseNonNegativeInt } from '../../../lib/apiParams';
+import { errorResponse, ValidationError } from '../../../lib/apiErrors';
+
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 3;
+const DEFAULT_MAX_ARTISTS = 25;
+const MAX_MAX_ARTISTS = 100;
+const DEFAULT_MAX_REQUESTS = 500;
+const MAX_MAX_REQUESTS = 2000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const seedId = searchParams.get('seed');
+  const depth = parseNonNegativeInt(searchParams.get('depth'), DEFAULT_DEPTH);
+  const maxArtists = parseNonNegativeInt(searchParams.get('maxArtists'), DEFAULT_MAX_ARTISTS);
+  const maxRequests = parseNonNegativeInt(searchParams.get('maxRequests'), DEFAULT_MAX_REQUESTS);
+  const strategy = searchParams.get('strategy') || 'search';
+  const market = searchParams.get('market')?.toUpperCase() || DEFAULT_MARKET;
+
+  if (!seedId) {
+    return errorResponse(new ValidationError('Seed artist ID is required'));
+  }
+  if (depth === null || depth > MAX_DEPTH) {
+    return errorResponse(new ValidationError(`depth must be an integer between 0 and ${MAX_DEPTH}`));
+  }
+  if (maxArtists === null || maxArtists < 1 || maxArtists > MAX_MAX_ARTISTS) {
+    return errorResponse(new ValidationError(`maxArtists must be an integer between 1 and ${MAX_MAX_ARTISTS}`));
+  }
+  if (maxRequests === null || maxRequests < 1 || maxRequests > MAX_MAX_REQUESTS) {
+    return errorResponse(new ValidationError(`maxRequests must be an integer between 1 and ${MAX_MAX_REQUESTS}`));
+  }
+  if (!isTrackDiscoveryStrategy(strategy)) {
+    return errorResponse(new ValidationError(`strategy must be one of: ${TRACK_DISCOVERY_STRATEGIES.join(', ')}`));
+  }
+  if (market !== undefined && !isMarket(market)) {
+    return errorResponse(new ValidationError('market must be a two-letter country code'));
+  }
+
+  console.log(`[API /collaboration-graph] Crawling from seed ${seedId} (depth: ${depth}, maxArtists: ${maxArtists}, market: ${market ?? 'none'})`);
+
+  try {
+    const seedArtist = await getAppSpotifyClient().getArtist(seedId);
+
+    const graph = await crawlCollaborationGraph({ id: seedArtist.id, name: seedArtist.name }, { depth, maxArtists, strategy, market, maxRequests });
+
+    console.log(`[API /collaboration-graph] Returning ${graph.nodes.length} nodes and ${graph.edges.length} edges.`);
+    return NextResponse.json(graph);
+
+  } catch (error: unknown) {
+    console.error(`[API /collaboration-graph] Error crawling from seed ${seedId}:`, error);
+    return errorResponse(error, 'Failed to build collaboration graph');
+  }
+}
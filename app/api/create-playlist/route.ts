@@ -1,175 +1,194 @@
 import { NextResponse } from 'next/server';
-// Import the user-specific functions from the refactored library
+// Session loading, token refresh (proactive and on 401) and error responses are handled by withUserSpotify
+import { withUserSpotify } from '../../../lib/userSpotify';
+import { PermissionError, ValidationError } from '../../../lib/apiErrors';
+import { isPlaylistOrder, orderTracks, type PlaylistOrder } from '../../../lib/playlistOrder';
 import {
-    getUserProfile,
-    createUserPlaylist,
-    addTracksToUserPlaylist
-} from '../../../lib/spotify';
-// Import the refresh function
-import { refreshAccessToken } from '../../../lib/spotifyAuth';
-import { cookies } from 'next/headers';
-import type { NextRequest } from 'next/server';
-
-// Define expected request body structure
-interface CreatePlaylistRequestBody {
+  MAX_PLAYLIST_TRACKS,
+  filterPlayableTracks,
+  getTracksForUris,
+  hasSelectionOptions,
+  selectPlaylistTracks,
+  type PlaylistSelectionOptions,
+} from '../../../lib/playlistSelection';
+import { findMarkedPlaylist, syncPlaylist, withPlaylistMarker, type PlaylistSyncChanges } from '../../../lib/playlistSync';
+import { DEFAULT_MARKET } from '../../../lib/spotify';
+import type { SpotifyPlaylist } from '../../../lib/spotifyTypes';
+
+// Define expected request body structure. The selection options (caps, quotas, filters) are
+// applied before ordering; see lib/playlistSelection.ts.
+interface CreatePlaylistRequestBody extends PlaylistSelectionOptions {
   playlistName: string;
   trackUris: string[];
   description?: string; // Optional description
+  public?: boolean; // Requires the playlist-modify-public scope; private by default
+  // 'sync' updates an existing playlist (playlistId, or the one previously created for syncKey)
+  // to match trackUris instead of creating a new one; creates it if none is found
+  mode?: 'create' | 'sync';
+  playlistId?: string;
+  syncKey?: string; // Stored as a marker in the description of created playlists
+  order?: PlaylistOrder; // Track order strategy (see lib/playlistOrder.ts); tracks are kept as sent by default
+  graphArtistIds?: string[]; // Graphed artists, seed first; used by the artist-based orders
 }
 
-export async function POST(request: NextRequest) {
-  console.log("[API /create-playlist] Received request");
-
-  const cookieStore = await cookies();
-  const userAccessToken = cookieStore.get('spotify_access_token')?.value;
+const SYNC_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
 
-  if (!userAccessToken) {
-    console.log("[API /create-playlist] User access token not found in cookies.");
-    return NextResponse.json({ error: 'Spotify authentication required. Please login.' }, { status: 401 });
+// Validates an optional integer option in [min, max]
+function optionalInt(value: unknown, name: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new ValidationError(`${name} must be an integer between ${min} and ${max}`);
   }
+  return value;
+}
+
+export const POST = withUserSpotify(async (request, { client }) => {
+  console.log("[API /create-playlist] Received request");
 
   let requestBody: CreatePlaylistRequestBody;
   try {
     requestBody = await request.json();
   } catch (error) {
     console.error("[API /create-playlist] Error parsing request body:", error);
-    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    throw new ValidationError('Invalid request body');
+  }
+  if (typeof requestBody !== 'object' || requestBody === null) {
+    throw new ValidationError('Request body must be a JSON object');
   }
 
-  const { playlistName, trackUris, description } = requestBody;
+  const { playlistName, trackUris, description, public: isPublic = false, mode = 'create', playlistId: targetPlaylistId, syncKey,
+    order = 'as_given', graphArtistIds = [] } = requestBody;
 
   if (!playlistName || !trackUris || !Array.isArray(trackUris) || trackUris.length === 0) {
     console.log("[API /create-playlist] Missing required fields:", { playlistName, trackUris });
-    return NextResponse.json({ error: 'Missing playlistName or trackUris (must be a non-empty array)' }, { status: 400 });
+    throw new ValidationError('Missing playlistName or trackUris (must be a non-empty array)');
   }
 
   // Validate track URIs (basic check)
   if (!trackUris.every(uri => typeof uri === 'string' && uri.startsWith('spotify:track:'))) {
       console.log("[API /create-playlist] Invalid track URIs found:", trackUris);
-      return NextResponse.json({ error: 'Invalid track URIs provided. Ensure they start with "spotify:track:"' }, { status: 400 });
+      throw new ValidationError('Invalid track URIs provided. Ensure they start with "spotify:track:"');
   }
 
-  // Get client ID for potential refresh
-  const clientId = process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID;
-  if (!clientId) {
-    console.error("[API /create-playlist] Missing Spotify Client ID env var for potential token refresh.");
-    // Note: This is an internal server error, shouldn't happen if configured
-    return NextResponse.json({ error: 'Internal server configuration error.' }, { status: 500 });
+  if (mode !== 'create' && mode !== 'sync') {
+      throw new ValidationError('Invalid mode. Use "create" or "sync".');
   }
-
-  let currentAccessToken = userAccessToken; // Use a mutable variable for token
-
-  // Function to wrap Spotify calls and handle token refresh
-  const callSpotifyWithRefresh = async <T>(spotifyCall: (token: string) => Promise<T>): Promise<T> => {
-    try {
-        return await spotifyCall(currentAccessToken);
-    } catch (error: any) {
-        console.warn("[API /create-playlist] Initial Spotify call failed, checking for 401:", error.message);
-        // Check if the error indicates an expired token (typically 401)
-        let isAuthError = false;
-        // Check for specific Spotify error format or general 401 in message
-        if (error.message?.includes('(Status: 401)') || /401/.test(error.message)) {
-            isAuthError = true;
-        }
-        // Add more specific checks if the error structure varies
-
-        if (isAuthError) {
-            console.log("[API /create-playlist] Detected 401 error, attempting token refresh...");
-            const refreshToken = cookieStore.get('spotify_refresh_token')?.value;
-            if (!refreshToken) {
-                console.log("[API /create-playlist] No refresh token found, cannot refresh.");
-                throw new Error('Authentication required. Please log in again.'); // Rethrow specific error for client
-            }
-
-            const refreshedTokenData = await refreshAccessToken(refreshToken, clientId);
-
-            if (refreshedTokenData && refreshedTokenData.access_token) {
-                console.log("[API /create-playlist] Token refreshed successfully. Retrying original call.");
-                currentAccessToken = refreshedTokenData.access_token;
-                const maxAge = refreshedTokenData.expires_in;
-                const secure = process.env.NODE_ENV === 'production';
-
-                // Update the access token cookie
-                cookieStore.set('spotify_access_token', currentAccessToken, {
-                    httpOnly: true,
-                    secure: secure,
-                    maxAge: maxAge,
-                    path: '/',
-                    sameSite: 'lax',
-                });
-                // Note: We are not updating the refresh token here for simplicity,
-                // assuming the original one is still valid or Spotify didn't return a new one.
-
-                // Retry the original Spotify call with the new token
-                return await spotifyCall(currentAccessToken);
-            } else {
-                console.error("[API /create-playlist] Token refresh failed.");
-                // Clear potentially invalid tokens if refresh fails
-                cookieStore.delete('spotify_access_token');
-                cookieStore.delete('spotify_refresh_token');
-                throw new Error('Authentication session expired. Please log in again.');
-            }
-        } else {
-            // If it wasn't a 401 error, just rethrow the original error
-            console.log("[API /create-playlist] Error was not 401, rethrowing.");
-            throw error;
-        }
-    }
+  if (syncKey !== undefined && (typeof syncKey !== 'string' || !SYNC_KEY_PATTERN.test(syncKey))) {
+      throw new ValidationError('Invalid syncKey. Use 1-64 letters, digits, "-" or "_".');
+  }
+  if (targetPlaylistId !== undefined && (typeof targetPlaylistId !== 'string' || !targetPlaylistId || mode !== 'sync')) {
+      throw new ValidationError('playlistId must be a non-empty string and requires mode "sync"');
+  }
+  if (!isPlaylistOrder(order)) {
+      throw new ValidationError('Invalid order. Use "as_given", "popularity", "release_date", "round_robin", "collaboration_pairs" or "graph_walk".');
+  }
+  if (!Array.isArray(graphArtistIds) || !graphArtistIds.every(id => typeof id === 'string')) {
+      throw new ValidationError('graphArtistIds must be an array of artist IDs');
+  }
+  const selectionOptions: PlaylistSelectionOptions = {
+      maxTracks: optionalInt(requestBody.maxTracks, 'maxTracks', 1, MAX_PLAYLIST_TRACKS),
+      maxPerArtist: optionalInt(requestBody.maxPerArtist, 'maxPerArtist', 1, MAX_PLAYLIST_TRACKS),
+      minPopularity: optionalInt(requestBody.minPopularity, 'minPopularity', 0, 100),
+      collaborationsOnly: requestBody.collaborationsOnly === true,
+      balanced: requestBody.balanced === true,
   };
 
   try {
-    console.log("[API /create-playlist] Attempting Spotify API calls with refresh logic.");
+    console.log("[API /create-playlist] Attempting Spotify API calls.");
 
-    // 1. Get the current user's ID (wrapped)
-    const userProfile = await callSpotifyWithRefresh(token => getUserProfile(token));
+    // 1. Get the current user's ID
+    const userProfile = await client.getCurrentUserProfile();
     const userId = userProfile.id;
     console.log(`[API /create-playlist] Fetched user ID: ${userId}`);
 
-    // 2. Create the playlist (wrapped)
+    // Tracks are checked against the user's market: unplayable ones are skipped and relinked
+    // ones are replaced by the version playable there
+    const market = userProfile.country || DEFAULT_MARKET;
+    const availability = { market: market ?? null, unplayable: 0, relinked: 0 };
+
+    // Apply the selection options and order, which need each track's popularity, date and artists
+    let orderedUris = trackUris;
+    const filtering = hasSelectionOptions(selectionOptions);
+    if (filtering || order !== 'as_given' || market) {
+        const lookup = await getTracksForUris(client, trackUris, market);
+        const { tracks, unplayable, relinked } = filterPlayableTracks(lookup.tracks);
+        Object.assign(availability, { unplayable, relinked });
+        const selection = selectPlaylistTracks(tracks, graphArtistIds, selectionOptions);
+        // Tracks Spotify didn't return can't be checked against the options: drop them when filtering.
+        // Relinking can map two requested tracks to the same one, so URIs are deduplicated.
+        orderedUris = Array.from(new Set([
+            ...orderTracks(selection.tracks, order, graphArtistIds).map(track => track.uri),
+            ...(filtering ? [] : lookup.missingUris),
+        ]));
+        console.log(`[API /create-playlist] Selected ${orderedUris.length} of ${trackUris.length} tracks (order: ${order}, market: ${market ?? 'none'}, unplayable: ${unplayable}, relinked: ${relinked}, excluded: ${JSON.stringify(selection.excluded)})`);
+    }
+    if (orderedUris.length === 0) {
+        throw new ValidationError(availability.unplayable > 0
+            ? `No tracks match the playlist options that are playable in ${market}`
+            : 'No tracks match the playlist options');
+    }
+
+    // 2. In sync mode, find the playlist to update: the given one, or the one created earlier for syncKey
+    let existingPlaylist: SpotifyPlaylist | null = null;
+    if (mode === 'sync' && targetPlaylistId) {
+        existingPlaylist = await client.getPlaylist(targetPlaylistId);
+        if (existingPlaylist.owner.id !== userId) {
+            throw new PermissionError('Only playlists you own can be synced.');
+        }
+    } else if (mode === 'sync' && syncKey) {
+        existingPlaylist = await findMarkedPlaylist(client, userId, syncKey);
+        console.log(`[API /create-playlist] ${existingPlaylist ? `Found playlist ${existingPlaylist.id}` : 'No playlist found'} for sync key ${syncKey}`);
+    }
+
+    if (existingPlaylist) {
+        const { snapshotId, total, ...changes } = await syncPlaylist(client, existingPlaylist, orderedUris);
+        console.log(`[API /create-playlist] Synced playlist ${existingPlaylist.id} (${total} tracks, snapshot ${snapshotId})`);
+        return NextResponse.json({
+            playlistUrl: existingPlaylist.external_urls?.spotify || null,
+            playlistId: existingPlaylist.id,
+            created: false,
+            trackCount: total,
+            changes,
+            availability,
+        });
+    }
+
+    // 3. Create the playlist
+    const baseDescription = description || `Created from Artist Graph (${new Date().toLocaleDateString()})`;
     const playlistDetails = {
         name: playlistName,
-        description: description || `Created from Artist Graph (${new Date().toLocaleDateString()})`,
-        public: false,
+        description: syncKey ? withPlaylistMarker(baseDescription, syncKey) : baseDescription,
+        public: isPublic === true,
     };
-    const newPlaylist = await callSpotifyWithRefresh(token => createUserPlaylist(token, userId, playlistDetails));
+    const newPlaylist = await client.createPlaylist(userId, playlistDetails);
     const playlistId = newPlaylist.id;
     const playlistUrl = newPlaylist.external_urls?.spotify;
     console.log(`[API /create-playlist] Created playlist ID: ${playlistId}, URL: ${playlistUrl}`);
 
-    // 3. Add tracks to the playlist (wrapped, inside loop)
+    // 4. Add tracks to the playlist (in batches)
     const MAX_TRACKS_PER_REQUEST = 100;
-    for (let i = 0; i < trackUris.length; i += MAX_TRACKS_PER_REQUEST) {
-        const chunk = trackUris.slice(i, i + MAX_TRACKS_PER_REQUEST);
-        await callSpotifyWithRefresh(token => addTracksToUserPlaylist(token, playlistId, chunk));
+    for (let i = 0; i < orderedUris.length; i += MAX_TRACKS_PER_REQUEST) {
+        const chunk = orderedUris.slice(i, i + MAX_TRACKS_PER_REQUEST);
+        await client.addTracksToPlaylist(playlistId, chunk);
         console.log(`[API /create-playlist] Added batch of ${chunk.length} tracks to playlist ${playlistId}`);
     }
 
-    console.log(`[API /create-playlist] Successfully added ${trackUris.length} tracks to playlist ${playlistId}`);
-
-    // 4. Return the new playlist URL
-    return NextResponse.json({ playlistUrl: playlistUrl || null });
-
-  } catch (error: any) {
-    // Simplified error handling - the wrapper function throws more specific errors now
-    console.error("[API /create-playlist] Final error catch:", error);
-    let errorMessage = error.message || 'Failed to create playlist';
-    let status = 500;
-
-    // Set status based on specific error messages from the wrapper or Spotify
-    if (error.message?.includes('Authentication required') || error.message?.includes('Authentication session expired')) {
-        status = 401;
-        // Clear cookies on final auth failure
-        cookieStore.delete('spotify_access_token');
-        cookieStore.delete('spotify_refresh_token');
-    } else if (error.message?.includes('(Status: 403)') || error.message?.includes('Permission denied')) {
-        status = 403;
-        errorMessage = 'Permission denied by Spotify. Ensure the app has the necessary permissions (playlist-modify-private).';
-    } else if (error.message?.includes('Failed to fetch user profile')) { // Example check
-        // Handle specific non-auth errors if needed
-        status = 502; // Bad Gateway? Or specific status from error
-        errorMessage = 'Could not communicate with Spotify to get user profile.';
+    console.log(`[API /create-playlist] Successfully added ${orderedUris.length} tracks to playlist ${playlistId}`);
+
+    // 5. Return the new playlist URL and what was added
+    const changes: PlaylistSyncChanges = { added: orderedUris.length, removed: 0, moved: 0 };
+    return NextResponse.json({ playlistUrl: playlistUrl || null, playlistId, created: true, trackCount: orderedUris.length, changes, availability });
+
+  } catch (error: unknown) {
+    // Spotify errors are typed (auth, permission/scope, not found, rate limited, upstream) and
+    // answered by withUserSpotify; only permission errors get a more helpful message
+    if (error instanceof PermissionError && error.upstreamStatus !== undefined) {
+      const scopes = [isPublic ? 'playlist-modify-public' : 'playlist-modify-private', ...(mode === 'sync' ? ['playlist-read-private'] : [])];
+      throw new PermissionError(
+        `Permission denied by Spotify. Ensure the app has the necessary permissions (${scopes.join(', ')}).`,
+        { reason: error.reason, upstreamStatus: error.upstreamStatus, missingScope: error.code === 'insufficient_scope' }
+      );
     }
-
-    return NextResponse.json({ error: errorMessage }, { status });
+    throw error;
   }
-}
\ No newline at end of file
+});
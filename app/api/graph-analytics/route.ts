@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { computeCollaboratorCounts, createGraph, isGraphDefinition, type CollaborationGraph } from '../../../lib/graph';
+import { analyzeGraph } from '../../../lib/graphAnalytics';
+import { errorResponse, ValidationError } from '../../../lib/apiErrors';
+
+// Betweenness is quadratic in the number of artists, so keep requests bounded
+const MAX_ANALYTICS_TRACKS = 20000;
+
+interface GraphAnalyticsRequestBody {
+  graph: CollaborationGraph; // Graphed artists and their tracks, as held by the search page
+  separateRemixers?: boolean; // Count remixer credits separately from collaborations
+}
+
+// Centrality, components, communities and bridge artists of a graph definition
+export async function POST(request: Request) {
+  let requestBody: GraphAnalyticsRequestBody;
+  try {
+    requestBody = await request.json();
+  } catch (error) {
+    console.error("[API /graph-analytics] Error parsing request body:", error);
+    return errorResponse(new ValidationError('Invalid request body'));
+  }
+
+  if (!isGraphDefinition(requestBody?.graph)) {
+    return errorResponse(new ValidationError('graph must have an "artists" array ({ id, name }) and a "songs" array of Spotify tracks'));
+  }
+  if (requestBody.graph.songs.length > MAX_ANALYTICS_TRACKS) {
+    return errorResponse(new ValidationError(`graph can't have more than ${MAX_ANALYTICS_TRACKS} songs`));
+  }
+
+  try {
+    // Rebuilt so the tracks are filtered and deduplicated the same way as on the page
+    const graph = createGraph(requestBody.graph.artists, requestBody.graph.songs);
+    const counts = computeCollaboratorCounts(graph, { separateRemixers: requestBody.separateRemixers === true });
+    const analytics = analyzeGraph(graph, counts);
+
+    console.log(`[API /graph-analytics] Analyzed ${analytics.nodeCount} artists and ${analytics.edgeCount} collaborations: ${analytics.communities.length} communities, ${analytics.bridges.length} bridges.`);
+    return NextResponse.json({ analytics });
+  } catch (error: unknown) {
+    console.error("[API /graph-analytics] Error analyzing graph:", error);
+    return errorResponse(error, 'Failed to analyze graph');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { computeCollaboratorCounts, createGraph, isGraphDefinition, type CollaborationGraph } from '../../../lib/graph';
+import { GRAPH_EXPORT_FORMATS, graphExportFileName, isGraphExportFormat, serializeGraphExport } from '../../../lib/graphExport';
+import { errorResponse, ValidationError } from '../../../lib/apiErrors';
+
+const MAX_EXPORT_TRACKS = 20000;
+
+interface GraphExportRequestBody {
+  format?: string; // Or ?format=; see lib/graphExport.ts
+  graph: CollaborationGraph; // Graphed artists and their tracks, as held by the search page
+  separateRemixers?: boolean; // Count remixer credits separately from collaborations
+  name?: string; // Base name for the downloaded file (defaults to the first graphed artist)
+}
+
+// Serializes a graph definition into a downloadable file
+export async function POST(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  let requestBody: GraphExportRequestBody;
+  try {
+    requestBody = await request.json();
+  } catch (error) {
+    console.error("[API /graph-export] Error parsing request body:", error);
+    return errorResponse(new ValidationError('Invalid request body'));
+  }
+  if (typeof requestBody !== 'object' || requestBody === null) {
+    return errorResponse(new ValidationError('Request body must be a JSON object'));
+  }
+
+  const format = requestBody.format ?? searchParams.get('format') ?? 'json';
+  if (!isGraphExportFormat(format)) {
+    return errorResponse(new ValidationError(`format must be one of: ${GRAPH_EXPORT_FORMATS.map(option => option.id).join(', ')}`));
+  }
+  if (!isGraphDefinition(requestBody.graph)) {
+    return errorResponse(new ValidationError('graph must have an "artists" array ({ id, name }) and a "songs" array of Spotify tracks'));
+  }
+  if (requestBody.graph.songs.length > MAX_EXPORT_TRACKS) {
+    return errorResponse(new ValidationError(`graph can't have more than ${MAX_EXPORT_TRACKS} songs`));
+  }
+
+  try {
+    // Rebuilt so the tracks are filtered and deduplicated the same way as on the page
+    const graph = createGraph(requestBody.graph.artists, requestBody.graph.songs);
+    const counts = computeCollaboratorCounts(graph, { separateRemixers: requestBody.separateRemixers === true });
+    const body = serializeGraphExport(graph, format, counts);
+    const fileName = graphExportFileName(requestBody.name || graph.artists[0]?.name || 'graph', format);
+    const { mimeType } = GRAPH_EXPORT_FORMATS.find(option => option.id === format)!;
+
+    console.log(`[API /graph-export] Exported ${graph.artists.length} artists and ${graph.songs.length} songs as ${format}.`);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[API /graph-export] Error exporting graph:", error);
+    return errorResponse(error, 'Failed to export graph');
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+// Session loading, token refresh and error responses are handled by withUserSpotify
+import { withUserSpotify } from '../../../../lib/userSpotify';
+import { NotFoundError, ValidationError } from '../../../../lib/apiErrors';
+import { getSavedGraphStore, parseSavedGraphInput } from '../../../../lib/savedGraphs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Saved graphs are only visible to the user who saved them; other IDs answer 404
+export const GET = withUserSpotify<RouteContext>(async (request, { client }, { params }) => {
+  const { id } = await params;
+  const { id: userId } = await client.getCurrentUserProfile();
+  const graph = await getSavedGraphStore().get(userId, id);
+  if (!graph) {
+    throw new NotFoundError('Saved graph not found');
+  }
+  return NextResponse.json({ graph });
+});
+
+// Renames a graph or replaces its artists, filters or playlist IDs (all fields optional)
+export const PATCH = withUserSpotify<RouteContext>(async (request, { client }, { params }) => {
+  const { id } = await params;
+  let requestBody: unknown;
+  try {
+    requestBody = await request.json();
+  } catch (error) {
+    console.error("[API /graphs/[id]] Error parsing request body:", error);
+    throw new ValidationError('Invalid request body');
+  }
+
+  const changes = parseSavedGraphInput(requestBody, { partial: true });
+  const { id: userId } = await client.getCurrentUserProfile();
+  const graph = await getSavedGraphStore().update(userId, id, changes);
+  if (!graph) {
+    throw new NotFoundError('Saved graph not found');
+  }
+  console.log(`[API /graphs/[id]] Updated graph ${id} (${Object.keys(changes).join(', ') || 'no changes'}) for user ${userId}`);
+  return NextResponse.json({ graph });
+});
+
+export const DELETE = withUserSpotify<RouteContext>(async (request, { client }, { params }) => {
+  const { id } = await params;
+  const { id: userId } = await client.getCurrentUserProfile();
+  if (!(await getSavedGraphStore().delete(userId, id))) {
+    throw new NotFoundError('Saved graph not found');
+  }
+  console.log(`[API /graphs/[id]] Deleted graph ${id} for user ${userId}`);
+  return NextResponse.json({ deleted: true });
+});
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+// Session loading, token refresh and error responses are handled by withUserSpotify
+import { withUserSpotify } from '../../../lib/userSpotify';
+import { NotFoundError, ValidationError } from '../../../lib/apiErrors';
+import { getSavedGraphStore, parseSavedGraphInput, type SavedGraphInput } from '../../../lib/savedGraphs';
+
+// Lists the logged-in user's saved graphs, most recently updated first
+export const GET = withUserSpotify(async (request, { client }) => {
+  const { id: userId } = await client.getCurrentUserProfile();
+  const graphs = await getSavedGraphStore().list(userId);
+  console.log(`[API /graphs] Listed ${graphs.length} saved graph(s) for user ${userId}`);
+  return NextResponse.json({ graphs });
+});
+
+// Saves a graph: { name, artists, filters?, playlistIds? }, or copies one: { duplicateOf, name? }
+export const POST = withUserSpotify(async (request, { client }) => {
+  let requestBody: Record<string, unknown>;
+  try {
+    requestBody = await request.json();
+  } catch (error) {
+    console.error("[API /graphs] Error parsing request body:", error);
+    throw new ValidationError('Invalid request body');
+  }
+
+  const { id: userId } = await client.getCurrentUserProfile();
+  const store = getSavedGraphStore();
+
+  if (requestBody?.duplicateOf !== undefined) {
+    if (typeof requestBody.duplicateOf !== 'string') {
+      throw new ValidationError('duplicateOf must be a saved graph ID');
+    }
+    const { name } = parseSavedGraphInput({ name: requestBody.name }, { partial: true });
+    const copy = await store.duplicate(userId, requestBody.duplicateOf, name);
+    if (!copy) {
+      throw new NotFoundError('Saved graph not found');
+    }
+    console.log(`[API /graphs] Duplicated graph ${requestBody.duplicateOf} as ${copy.id} for user ${userId}`);
+    return NextResponse.json({ graph: copy }, { status: 201 });
+  }
+
+  const graph = await store.create(userId, parseSavedGraphInput(requestBody, { partial: false }) as SavedGraphInput);
+  console.log(`[API /graphs] Saved graph ${graph.id} ("${graph.name}", ${graph.artists.length} artists) for user ${userId}`);
+  return NextResponse.json({ graph }, { status: 201 });
+});
@@ -1,106 +1,38 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getAppSpotifyClient } from '@/lib/spotifyClient';
+import type { SpotifyArtist } from '@/lib/spotifyTypes';
+import { errorResponse, ValidationError } from '@/lib/apiErrors';
 
-// Cache for the Spotify token
-let tokenCache = {
-  accessToken: null as string | null,
-  expiresAt: 0,
-};
-
-// Function to get Spotify token (with caching)
-async function getSpotifyToken(): Promise<string | null> {
-  const now = Date.now();
-  // Check cache, refresh if expired or nearing expiry (e.g., 60 seconds buffer)
-  if (tokenCache.accessToken && now < tokenCache.expiresAt - 60000) {
-    return tokenCache.accessToken;
-  }
-
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    console.error('Spotify client ID or secret not set in environment variables');
-    return null;
-  }
-
-  try {
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        // btoa is available in Node.js >= 16 and Edge Runtime
-        'Authorization': 'Basic ' + Buffer.from(clientId + ':' + clientSecret).toString('base64')
-      },
-      body: 'grant_type=client_credentials',
-      cache: 'no-store', // Ensure fresh token request
-    });
-
-    if (!response.ok) {
-      console.error('Failed to fetch Spotify token:', await response.text());
-      tokenCache = { accessToken: null, expiresAt: 0 }; // Clear cache on failure
-      return null;
-    }
-
-    const data = await response.json();
-    const expiresIn = data.expires_in; // Typically 3600 seconds (1 hour)
-    tokenCache = {
-      accessToken: data.access_token,
-      expiresAt: now + expiresIn * 1000,
-    };
-    console.log(`Fetched new Spotify token, expires in ${expiresIn} seconds.`);
-    return tokenCache.accessToken;
-  } catch (error) {
-      console.error('Error fetching Spotify token:', error);
-      tokenCache = { accessToken: null, expiresAt: 0 }; // Clear cache on error
-      return null;
-  }
-}
-
-interface SpotifyArtist {
-    id: string;
-    name: string;
-    images: { url: string; height: number; width: number }[];
-    external_urls: { spotify: string };
-    genres: string[];
-    popularity: number;
-}
+const MAX_IDS = 50;
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get('q');
+  const ids = searchParams.get('ids'); // Comma-separated artist IDs to look up instead of searching (e.g. to restore a shared graph)
 
-  if (!query || query.trim().length < 2) { // Avoid searching for very short strings
-    return NextResponse.json({ artists: [] }); // Return empty list, not an error
+  if (ids !== null) {
+    const artistIds = ids.split(',').map(id => id.trim()).filter(Boolean);
+    if (artistIds.length === 0 || artistIds.length > MAX_IDS) {
+      return errorResponse(new ValidationError(`ids must list between 1 and ${MAX_IDS} artist IDs`));
+    }
+    try {
+      // Unknown IDs are left out; the rest keep the requested order
+      const artists = (await getAppSpotifyClient().getArtists(artistIds)).filter((artist): artist is SpotifyArtist => artist !== null);
+      return NextResponse.json({ artists });
+    } catch (error) {
+      console.error('Error looking up Spotify artists in API route:', error);
+      return errorResponse(error, 'Failed to look up Spotify artists');
+    }
   }
 
-  const token = await getSpotifyToken();
-
-  if (!token) {
-    return NextResponse.json({ error: 'Failed to authenticate with Spotify' }, { status: 500 });
+  if (!query || query.trim().length < 2) { // Avoid searching for very short strings
+    return NextResponse.json({ artists: [] }); // Return empty list, not an error
   }
 
   try {
     // Limit results for dropdown efficiency
-    const searchUrl = `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=artist&limit=5`;
-    const spotifyResponse = await fetch(searchUrl, {
-      headers: {
-        'Authorization': `Bearer ${token}`
-      },
-      cache: 'no-store', // Don't cache search results on the edge/server
-    });
-
-    if (!spotifyResponse.ok) {
-       const errorData = await spotifyResponse.text();
-       console.error('Spotify API search error:', errorData);
-       // Try to parse error details from Spotify if possible
-       let details = errorData;
-       try {
-         details = JSON.parse(errorData);
-       } catch(e) { /* Ignore parsing error */ }
-       return NextResponse.json({ error: 'Failed to search Spotify artists', details }, { status: spotifyResponse.status });
-    }
-
-    const searchData = await spotifyResponse.json();
+    const searchData = await getAppSpotifyClient().search(query, 'artist', { limit: 5 });
     // Map to a slightly cleaner structure if desired, or return as is
     const artists: SpotifyArtist[] = searchData.artists?.items || [];
 
@@ -108,6 +40,6 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('Error searching Spotify in API route:', error);
-    return NextResponse.json({ error: 'Internal server error during Spotify search' }, { status: 500 });
+    return errorResponse(error, 'Failed to search Spotify artists');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,101 @@
+"use client";
+import { useState } from 'react';
+import ArtistPicker, { type PickedArtist } from './ArtistPicker';
+import type { ArtistPathResult } from '@/lib/artistPath';
+
+const REASON_MESSAGES: Record<NonNullable<ArtistPathResult['reason']>, string> = {
+  no_connection: 'These artists are not connected through any collaborations we could find.',
+  depth_limit: 'No connection found within the maximum number of hops.',
+  budget_exhausted: 'Search stopped before finding a connection (request budget used up). Try again with a larger budget.',
+};
+
+interface ArtistPathFinderProps {
+  market?: string; // Country code for track lookups (the logged-in user's country, if known)
+}
+
+// "Degrees of separation" panel: pick two artists and show the collaboration chain between them
+export default function ArtistPathFinder({ market }: ArtistPathFinderProps) {
+  const [fromArtist, setFromArtist] = useState<PickedArtist | null>(null);
+  const [toArtist, setToArtist] = useState<PickedArtist | null>(null);
+  const [maxDepth, setMaxDepth] = useState(4);
+  const [isSearching, setIsSearching] = useState(false);
+  const [result, setResult] = useState<ArtistPathResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFindPath = async () => {
+    if (!fromArtist || !toArtist) return;
+    setIsSearching(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ from: fromArtist.id, to: toArtist.id, maxDepth: String(maxDepth) });
+      if (market) params.set('market', market);
+      const response = await fetch(`/api/artist-path?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to find path. Status: ${response.status}`);
+      }
+      setResult(data);
+    } catch (err: unknown) {
+      console.error("Failed to find artist path:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-3 rounded bg-gray-800 border border-gray-700 space-y-3">
+      <h3 className="text-lg font-semibold text-gray-300">Degrees of Separation</h3>
+      <ArtistPicker label="From" value={fromArtist} onChange={(artist) => { setFromArtist(artist); setResult(null); }} disabled={isSearching} />
+      <ArtistPicker label="To" value={toArtist} onChange={(artist) => { setToArtist(artist); setResult(null); }} disabled={isSearching} />
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          Max hops
+          <select
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(Number(e.target.value))}
+            disabled={isSearching}
+            className="p-1 rounded bg-gray-700 border border-gray-600 text-gray-100"
+          >
+            {[2, 3, 4, 5, 6].map(depth => <option key={depth} value={depth}>{depth}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleFindPath}
+          disabled={!fromArtist || !toArtist || isSearching}
+          className={`ml-auto px-4 py-1 rounded bg-green-600 text-white text-sm font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed ${isSearching ? 'animate-pulse' : ''}`}
+        >
+          {isSearching ? 'Searching...' : 'Find Path'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">Error: {error}</p>}
+
+      {result && !result.found && (
+        <p className="text-sm text-gray-400">{result.reason ? REASON_MESSAGES[result.reason] : 'No path found.'}</p>
+      )}
+
+      {result && result.found && (
+        <div className="space-y-2">
+          <p className="text-sm text-purple-400">
+            {result.hops.length} degree(s) of separation ({result.requestsUsed} Spotify request(s))
+          </p>
+          <ol className="space-y-2">
+            {result.hops.map((hop, index) => (
+              <li key={`${hop.from.id}-${hop.to.id}`} className="text-sm">
+                {index === 0 && <span className="font-semibold text-gray-100">{hop.from.name}</span>}
+                <div className="pl-3 border-l-2 border-green-700 my-1 text-xs text-gray-400">
+                  {hop.tracks.slice(0, 3).map(track => <div key={track.id} className="truncate">&ldquo;{track.name}&rdquo;</div>)}
+                  {hop.tracks.length > 3 && <div>+{hop.tracks.length - 3} more</div>}
+                </div>
+                <span className="font-semibold text-gray-100">{hop.to.name}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
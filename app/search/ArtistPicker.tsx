@@ -0,0 +1,105 @@
+"use client";
+import { useEffect, useRef, useState } from 'react';
+
+export interface PickedArtist {
+  id: string;
+  name: string;
+  images?: { url: string }[];
+}
+
+interface ArtistPickerProps {
+  label: string;
+  value: PickedArtist | null;
+  onChange: (artist: PickedArtist | null) => void;
+  disabled?: boolean;
+}
+
+// Compact artist search box backed by /api/search-artists
+export default function ArtistPicker({ label, value, onChange, disabled = false }: ArtistPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PickedArtist[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const debounceTimer = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current);
+    }
+    if (value || query.trim().length < 2) {
+      setResults([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    debounceTimer.current = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search-artists?q=${encodeURIComponent(query)}`);
+        const data = await response.json();
+        setResults(response.ok ? data.artists || [] : []);
+      } catch (error) {
+        console.error("Failed to fetch artists for picker:", error);
+        setResults([]);
+      } finally {
+        setIsLoading(false);
+      }
+    }, 400);
+
+    return () => {
+      if (debounceTimer.current) {
+        clearTimeout(debounceTimer.current);
+      }
+    };
+  }, [query, value]);
+
+  if (value) {
+    return (
+      <div>
+        <span className="block text-xs text-gray-400 mb-1">{label}</span>
+        <div className="flex items-center justify-between p-2 rounded bg-gray-700 border border-gray-600">
+          <span className="text-sm text-gray-100 truncate">{value.name}</span>
+          <button
+            onClick={() => { onChange(null); setQuery(''); }}
+            disabled={disabled}
+            className="ml-2 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+            aria-label={`Clear ${label}`}
+          >
+            Change
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <label className="block text-xs text-gray-400 mb-1">
+        {label}
+        <input
+          type="text"
+          placeholder="Search for an artist..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          disabled={disabled}
+          className="mt-1 w-full p-2 rounded border border-gray-600 bg-gray-700 text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+      </label>
+      {(isLoading || results.length > 0) && (
+        <div role="listbox" className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded shadow-lg max-h-48 overflow-y-auto">
+          {isLoading && <div className="p-2 text-sm text-gray-500">Loading artists...</div>}
+          {!isLoading && results.map(artist => (
+            <div
+              key={artist.id}
+              role="option"
+              aria-selected="false"
+              className="p-2 text-sm hover:bg-gray-200 cursor-pointer text-gray-900 truncate"
+              onMouseDown={() => { onChange(artist); setResults([]); }}
+            >
+              {artist.name}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
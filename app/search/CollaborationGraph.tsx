@@ -0,0 +1,242 @@
+"use client";
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { seedLayoutNodes, stepLayout, type LayoutEdge, type LayoutNode } from '@/lib/forceLayout';
+import { computeEdges, type CollaboratorCounts, type GraphArtist } from '@/lib/graph';
+
+interface GraphTrack {
+  id: string;
+  name: string;
+  artists: { id: string; name: string }[];
+}
+
+interface CollaborationGraphProps {
+  graphedArtists: GraphArtist[];
+  collaboratorCounts: CollaboratorCounts; // Collaborators that are NOT yet in the graph
+  songs: GraphTrack[];
+  onAddArtist: (artist: GraphArtist) => void;
+  disabled?: boolean;
+  maxCollaborators?: number; // How many of the top collaborators to draw as suggestion nodes
+  nodeColors?: Record<string, string>; // Fill per artist ID (e.g. by community); defaults to green for graphed artists
+}
+
+interface GraphNode {
+  id: string;
+  name: string;
+  images?: { url: string }[];
+  inGraph: boolean;
+  count: number; // Collaboration count for suggestion nodes, 0 for graphed artists
+}
+
+const WIDTH = 640;
+const HEIGHT = 420;
+const MAX_TICKS = 400;
+const ENERGY_THRESHOLD = 0.05;
+
+export default function CollaborationGraph({
+  graphedArtists,
+  collaboratorCounts,
+  songs,
+  onAddArtist,
+  disabled = false,
+  maxCollaborators = 15,
+  nodeColors,
+}: CollaborationGraphProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const layoutRef = useRef<Map<string, LayoutNode>>(new Map());
+  const frameRef = useRef<number | null>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+  const [, setFrame] = useState(0); // Bumped on every simulation tick to re-render positions
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  // --- Build nodes: graphed artists plus the top collaborators by count ---
+  const nodes = useMemo<GraphNode[]>(() => {
+    const graphNodes: GraphNode[] = graphedArtists.map(artist => ({
+      id: artist.id,
+      name: artist.name,
+      images: artist.images,
+      inGraph: true,
+      count: 0,
+    }));
+    const collaboratorNodes: GraphNode[] = Object.entries(collaboratorCounts)
+      .filter(([, data]) => data.count > 0) // Remix-only credits, when counted separately
+      .sort(([, a], [, b]) => b.count - a.count)
+      .slice(0, maxCollaborators)
+      .map(([id, data]) => ({ id, name: data.name, images: data.images, inGraph: false, count: data.count }));
+    return [...graphNodes, ...collaboratorNodes];
+  }, [graphedArtists, collaboratorCounts, maxCollaborators]);
+
+  // --- Build edges: weight is the number of tracks both artists appear on ---
+  const edges = useMemo<LayoutEdge[]>(
+    () => computeEdges(songs, new Set(nodes.map(node => node.id))),
+    [nodes, songs]
+  );
+
+  const maxWeight = edges.reduce((max, edge) => Math.max(max, edge.weight), 1);
+  const maxCount = nodes.reduce((max, node) => Math.max(max, node.count), 1);
+
+  // --- Run the simulation whenever the graph structure changes ---
+  const startSimulation = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+    }
+    let ticks = 0;
+    const layoutNodes = Array.from(layoutRef.current.values());
+    const tick = () => {
+      const energy = stepLayout(layoutNodes, edges, { width: WIDTH, height: HEIGHT });
+      ticks++;
+      setFrame(f => f + 1);
+      if (ticks < MAX_TICKS && (energy > ENERGY_THRESHOLD || dragRef.current)) {
+        frameRef.current = requestAnimationFrame(tick);
+      } else {
+        frameRef.current = null;
+      }
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }, [edges]);
+
+  useEffect(() => {
+    const seeded = seedLayoutNodes(nodes.map(node => node.id), WIDTH, HEIGHT, layoutRef.current);
+    layoutRef.current = new Map(seeded.map(node => [node.id, node]));
+    startSimulation();
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+        frameRef.current = null;
+      }
+    };
+  }, [nodes, startSimulation]);
+
+  // --- Dragging ---
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    return point.matrixTransform(matrix.inverse());
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, id: string) => {
+    const layoutNode = layoutRef.current.get(id);
+    if (!layoutNode) return;
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    layoutNode.fixed = true;
+    dragRef.current = { id, moved: false };
+    startSimulation();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const layoutNode = layoutRef.current.get(dragRef.current.id);
+    const point = toSvgPoint(e.clientX, e.clientY);
+    if (!layoutNode || !point) return;
+    if (Math.abs(point.x - layoutNode.x) + Math.abs(point.y - layoutNode.y) > 2) {
+      dragRef.current.moved = true;
+    }
+    layoutNode.x = point.x;
+    layoutNode.y = point.y;
+  };
+
+  const handlePointerUp = (node: GraphNode) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    const layoutNode = layoutRef.current.get(node.id);
+    if (layoutNode) layoutNode.fixed = false;
+    // A press without movement on a suggestion node counts as a click
+    if (drag && !drag.moved && !node.inGraph && !disabled) {
+      onAddArtist({ id: node.id, name: node.name, images: node.images?.length ? node.images : undefined });
+    }
+  };
+
+  const isHighlighted = (edge: LayoutEdge) => hoveredId !== null && (edge.source === hoveredId || edge.target === hoveredId);
+
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="relative w-full bg-gray-900 rounded border border-gray-700">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none touch-none"
+        onPointerMove={handlePointerMove}
+        role="img"
+        aria-label="Artist collaboration graph"
+      >
+        {/* Edges */}
+        <g>
+          {edges.map(edge => {
+            const a = layoutRef.current.get(edge.source);
+            const b = layoutRef.current.get(edge.target);
+            if (!a || !b) return null;
+            const highlighted = isHighlighted(edge);
+            return (
+              <line
+                key={`${edge.source}|${edge.target}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={highlighted ? '#4ade80' : '#6b7280'}
+                strokeOpacity={hoveredId && !highlighted ? 0.15 : 0.6}
+                strokeWidth={1 + (4 * edge.weight) / maxWeight}
+              >
+                <title>{`${edge.weight} shared track(s)`}</title>
+              </line>
+            );
+          })}
+        </g>
+        {/* Nodes */}
+        <g>
+          {nodes.map(node => {
+            const layoutNode = layoutRef.current.get(node.id);
+            if (!layoutNode) return null;
+            const radius = node.inGraph ? 14 : 6 + (6 * node.count) / maxCount;
+            const clickable = !node.inGraph && !disabled;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${layoutNode.x}, ${layoutNode.y})`}
+                className={clickable ? 'cursor-pointer' : 'cursor-grab'}
+                onPointerDown={(e) => handlePointerDown(e, node.id)}
+                onPointerUp={() => handlePointerUp(node)}
+                onPointerEnter={() => setHoveredId(node.id)}
+                onPointerLeave={() => setHoveredId(null)}
+              >
+                <circle
+                  r={radius}
+                  fill={nodeColors?.[node.id] ?? (node.inGraph ? '#16a34a' : '#374151')}
+                  stroke={node.inGraph ? '#bbf7d0' : hoveredId === node.id ? '#4ade80' : '#9ca3af'}
+                  strokeWidth={node.inGraph ? 2 : 1.5}
+                  strokeDasharray={node.inGraph ? undefined : '3 2'}
+                />
+                <text
+                  y={radius + 12}
+                  textAnchor="middle"
+                  className="pointer-events-none"
+                  fill={node.inGraph ? '#f9fafb' : '#d1d5db'}
+                  fontSize={node.inGraph ? 12 : 10}
+                  fontWeight={node.inGraph ? 600 : 400}
+                >
+                  {node.name}
+                </text>
+                <title>
+                  {node.inGraph
+                    ? node.name
+                    : `${node.name}: ${node.count} collaboration song(s)${disabled ? '' : ' — click to add to graph'}`}
+                </title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      {/* Legend */}
+      <div className="absolute bottom-2 left-2 flex gap-3 text-xs text-gray-400 pointer-events-none">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-full bg-green-600" /> In graph</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-full bg-gray-700 border border-dashed border-gray-400" /> Suggestion</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+import { useState } from 'react';
+import type { CollaborationGraph, CollaboratorCounts } from '@/lib/graph';
+import { GRAPH_EXPORT_FORMATS, graphExportFileName, serializeGraphExport, type GraphExportFormat } from '@/lib/graphExport';
+
+interface GraphExportMenuProps {
+  graph: CollaborationGraph;
+  collaboratorCounts: CollaboratorCounts; // The counts shown on the page, so the export matches the view
+  name: string; // Base name for the file
+}
+
+// Format picker and download button for the current graph; files are generated in the browser
+export default function GraphExportMenu({ graph, collaboratorCounts, name }: GraphExportMenuProps) {
+  const [format, setFormat] = useState<GraphExportFormat>('json');
+
+  const handleDownload = () => {
+    const { mimeType } = GRAPH_EXPORT_FORMATS.find(option => option.id === format)!;
+    const blob = new Blob([serializeGraphExport(graph, format, collaboratorCounts)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = graphExportFileName(name, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as GraphExportFormat)}
+        className="p-1 text-xs rounded bg-gray-700 border border-gray-600 text-gray-100"
+        aria-label="Export format"
+      >
+        {GRAPH_EXPORT_FORMATS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
+      <button
+        onClick={handleDownload}
+        disabled={graph.artists.length === 0}
+        className="px-3 py-1 text-xs rounded bg-gray-700 text-gray-100 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Download the graph for Gephi, Graphviz or a notebook"
+      >
+        Export
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+import { useState } from 'react';
+import { communityColor, type ArtistMetrics, type GraphAnalytics } from '@/lib/graphAnalytics';
+
+interface GraphStatsPanelProps {
+  analytics: GraphAnalytics | null; // null until first computed
+  isUpdating: boolean;              // `analytics` is from an earlier version of the graph
+  open: boolean;                    // The stats are only computed while the panel is open (or colors the graph)
+  onOpenChange: (open: boolean) => void;
+  colorByCommunity: boolean;
+  onColorByCommunityChange: (enabled: boolean) => void;
+  maxListed?: number; // Artists shown per ranking and community
+}
+
+type Ranking = 'betweenness' | 'eigenvector' | 'weightedDegree' | 'degree';
+
+const RANKINGS: { id: Ranking; label: string; format: (artist: ArtistMetrics) => string }[] = [
+  { id: 'betweenness', label: 'Betweenness', format: artist => artist.betweenness.toFixed(3) },
+  { id: 'eigenvector', label: 'Eigenvector', format: artist => artist.eigenvector.toFixed(3) },
+  { id: 'weightedDegree', label: 'Shared tracks', format: artist => String(artist.weightedDegree) },
+  { id: 'degree', label: 'Collaborators', format: artist => String(artist.degree) },
+];
+
+// Collapsible summary statistics, centrality rankings, communities and bridge artists of the current graph
+export default function GraphStatsPanel({
+  analytics,
+  isUpdating,
+  open,
+  onOpenChange,
+  colorByCommunity,
+  onColorByCommunityChange,
+  maxListed = 5,
+}: GraphStatsPanelProps) {
+  const [ranking, setRanking] = useState<Ranking>('betweenness');
+
+  return (
+    <div className="mb-4 p-3 rounded bg-gray-800 border border-gray-700 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-300">
+          <button type="button" onClick={() => onOpenChange(!open)} aria-expanded={open} className="hover:text-white">
+            {open ? '▾' : '▸'} Network Stats
+          </button>
+          {open && analytics && isUpdating && <span className="ml-2 text-xs font-normal text-gray-500">Updating…</span>}
+        </h3>
+        <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={colorByCommunity}
+            onChange={(e) => onColorByCommunityChange(e.target.checked)}
+            className="mr-1 h-3 w-3 rounded border-gray-500 bg-gray-700 text-green-500 focus:ring-green-600"
+          />
+          Color graph by community
+        </label>
+      </div>
+
+      {open && (analytics
+        ? <NetworkStats analytics={analytics} ranking={ranking} onRankingChange={setRanking} maxListed={maxListed} />
+        : <p className="text-xs text-gray-500 italic">Analyzing the network…</p>)}
+    </div>
+  );
+}
+
+function NetworkStats({ analytics, ranking, onRankingChange, maxListed }: {
+  analytics: GraphAnalytics;
+  ranking: Ranking;
+  onRankingChange: (ranking: Ranking) => void;
+  maxListed: number;
+}) {
+  const byId = new Map(analytics.artists.map(artist => [artist.id, artist]));
+  const { format } = RANKINGS.find(option => option.id === ranking)!;
+  const ranked = [...analytics.artists].sort((a, b) => b[ranking] - a[ranking]).slice(0, maxListed);
+  // Single-artist communities are isolated collaborators, not worth listing one by one
+  const communities = analytics.communities.filter(members => members.length > 1);
+
+  return (
+    <>
+      <dl className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-center">
+        {[
+          ['Artists', analytics.nodeCount],
+          ['Collaborations', analytics.edgeCount],
+          ['Density', analytics.density.toFixed(3)],
+          ['Components', analytics.components.length],
+          ['Communities', communities.length],
+          ['Modularity', analytics.modularity.toFixed(2)],
+        ].map(([label, value]) => (
+          <div key={label} className="p-2 rounded bg-gray-900">
+            <dt className="text-xs text-gray-500">{label}</dt>
+            <dd className="text-gray-100 font-semibold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <h4 className="font-semibold text-gray-300">Most central</h4>
+            <select
+              value={ranking}
+              onChange={(e) => onRankingChange(e.target.value as Ranking)}
+              className="p-1 rounded bg-gray-700 border border-gray-600 text-xs text-gray-100"
+            >
+              {RANKINGS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <ol className="space-y-1">
+            {ranked.map(artist => (
+              <li key={artist.id} className="flex justify-between gap-2">
+                <span className={`truncate ${artist.graphed ? 'text-gray-100' : 'text-gray-400'}`}>{artist.name}</span>
+                <span className="text-gray-500">{format(artist)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-300 mb-1">Bridge artists</h4>
+          {analytics.bridges.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No artist connects separate groups.</p>
+          ) : (
+            <ul className="space-y-1">
+              {analytics.bridges.slice(0, maxListed).map(bridge => (
+                <li key={bridge.id} className="flex justify-between gap-2">
+                  <span className="truncate text-gray-100">{bridge.name}</span>
+                  <span className="text-xs text-gray-500" title={bridge.articulation ? 'Removing this artist splits the network' : undefined}>
+                    {bridge.communities} communities{bridge.articulation ? ' · cut' : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-300 mb-1">Communities</h4>
+          {communities.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No collaborations yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {communities.map(members => {
+                const community = byId.get(members[0])!.community;
+                // Named after its most connected artists
+                const names = members
+                  .map(id => byId.get(id)!)
+                  .sort((a, b) => b.weightedDegree - a.weightedDegree)
+                  .slice(0, 3)
+                  .map(artist => artist.name);
+                return (
+                  <li key={community} className="flex items-center gap-2">
+                    <span className="inline-block h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: communityColor(community) }} />
+                    <span className="truncate text-gray-300" title={members.map(id => byId.get(id)!.name).join(', ')}>
+                      {names.join(', ')}{members.length > names.length ? ` +${members.length - names.length}` : ''}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
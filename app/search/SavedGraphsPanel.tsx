@@ -0,0 +1,165 @@
+"use client";
+import { useCallback, useEffect, useState } from 'react';
+import type { GraphArtist } from '@/lib/graph';
+import type { GraphFilters } from '@/lib/graphUrlState';
+import type { SavedGraph } from '@/lib/savedGraphs';
+
+interface SavedGraphsPanelProps {
+  artists: GraphArtist[]; // The graph currently shown, seed first
+  filters: GraphFilters;
+  activeGraph: SavedGraph | null; // Saved graph currently open, if any
+  onActiveGraphChange: (graph: SavedGraph | null) => void;
+  onOpen: (graph: SavedGraph) => void;
+  disabled?: boolean;
+}
+
+// Sends a request to the saved graphs API, throwing its error message on failure
+async function graphsRequest<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed. Status: ${response.status}`);
+  }
+  return data;
+}
+
+// "My graphs": save the current graph, and open, rename, duplicate or delete saved ones
+export default function SavedGraphsPanel({ artists, filters, activeGraph, onActiveGraphChange, onOpen, disabled }: SavedGraphsPanelProps) {
+  const [graphs, setGraphs] = useState<SavedGraph[]>([]);
+  const [newGraphName, setNewGraphName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The open graph may have changed since the list was loaded (e.g. a playlist was recorded)
+  const listedGraphs = graphs.map(graph => (graph.id === activeGraph?.id ? activeGraph : graph));
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      console.error("Saved graphs request failed:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(async () => {
+      const data = await graphsRequest<{ graphs: SavedGraph[] }>('/api/graphs', 'GET');
+      setGraphs(data.graphs);
+    });
+  }, [run]);
+
+  const replaceGraph = (updated: SavedGraph) => {
+    setGraphs(current => [updated, ...current.filter(graph => graph.id !== updated.id)]);
+    if (activeGraph?.id === updated.id) onActiveGraphChange(updated);
+  };
+
+  const handleSaveNew = () => run(async () => {
+    const name = newGraphName.trim() || `${artists[0]?.name ?? 'Untitled'} graph`;
+    const { graph } = await graphsRequest<{ graph: SavedGraph }>('/api/graphs', 'POST', { name, artists, filters });
+    setGraphs(current => [graph, ...current]);
+    setNewGraphName('');
+    onActiveGraphChange(graph);
+  });
+
+  const handleSaveChanges = () => run(async () => {
+    if (!activeGraph) return;
+    const { graph } = await graphsRequest<{ graph: SavedGraph }>(`/api/graphs/${activeGraph.id}`, 'PATCH', { artists, filters });
+    replaceGraph(graph);
+  });
+
+  const handleRename = (savedGraph: SavedGraph) => {
+    const name = window.prompt('Rename graph', savedGraph.name);
+    if (!name || name.trim() === savedGraph.name) return;
+    run(async () => {
+      const { graph } = await graphsRequest<{ graph: SavedGraph }>(`/api/graphs/${savedGraph.id}`, 'PATCH', { name });
+      replaceGraph(graph);
+    });
+  };
+
+  const handleDuplicate = (savedGraph: SavedGraph) => run(async () => {
+    const { graph } = await graphsRequest<{ graph: SavedGraph }>('/api/graphs', 'POST', { duplicateOf: savedGraph.id });
+    setGraphs(current => [graph, ...current]);
+  });
+
+  const handleDelete = (savedGraph: SavedGraph) => {
+    if (!window.confirm(`Delete "${savedGraph.name}"? Playlists created from it are kept on Spotify.`)) return;
+    run(async () => {
+      await graphsRequest(`/api/graphs/${savedGraph.id}`, 'DELETE');
+      setGraphs(current => current.filter(graph => graph.id !== savedGraph.id));
+      if (activeGraph?.id === savedGraph.id) onActiveGraphChange(null);
+    });
+  };
+
+  const controlsDisabled = disabled || isBusy;
+
+  return (
+    <div className="p-3 rounded bg-gray-800 border border-gray-700 space-y-2 text-sm">
+      <h3 className="text-lg font-semibold text-gray-300">My Graphs</h3>
+      {artists.length > 0 && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newGraphName}
+            onChange={(e) => setNewGraphName(e.target.value)}
+            placeholder={`${artists[0].name} graph`}
+            maxLength={100}
+            disabled={controlsDisabled}
+            className="flex-grow min-w-0 p-1 rounded bg-gray-700 border border-gray-600 text-gray-100"
+          />
+          <button
+            onClick={handleSaveNew}
+            disabled={controlsDisabled}
+            className="px-2 py-1 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            Save as new
+          </button>
+        </div>
+      )}
+      {activeGraph && artists.length > 0 && (
+        <button
+          onClick={handleSaveChanges}
+          disabled={controlsDisabled}
+          className="w-full px-2 py-1 rounded bg-gray-700 text-gray-100 hover:bg-gray-600 disabled:opacity-50"
+        >
+          Save changes to &ldquo;{activeGraph.name}&rdquo;
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {listedGraphs.length === 0 && !isBusy && <p className="text-xs text-gray-500 italic">No saved graphs yet.</p>}
+      <ul className="space-y-1 max-h-60 overflow-y-auto">
+        {listedGraphs.map(savedGraph => (
+          <li
+            key={savedGraph.id}
+            className={`p-2 rounded flex items-center gap-2 ${savedGraph.id === activeGraph?.id ? 'bg-gray-700' : 'bg-gray-900'}`}
+          >
+            <button
+              onClick={() => onOpen(savedGraph)}
+              disabled={controlsDisabled}
+              className="flex-grow min-w-0 text-left disabled:opacity-50"
+              title={savedGraph.artists.map(artist => artist.name).join(', ')}
+            >
+              <span className="block truncate text-gray-100">{savedGraph.name}</span>
+              <span className="block text-xs text-gray-500">
+                {savedGraph.artists.length} artist(s)
+                {savedGraph.playlistIds.length > 0 ? `, ${savedGraph.playlistIds.length} playlist(s)` : ''}
+                {' · '}{new Date(savedGraph.updatedAt).toLocaleDateString()}
+              </span>
+            </button>
+            <button onClick={() => handleRename(savedGraph)} disabled={controlsDisabled} className="text-xs text-gray-400 hover:text-white disabled:opacity-50">Rename</button>
+            <button onClick={() => handleDuplicate(savedGraph)} disabled={controlsDisabled} className="text-xs text-gray-400 hover:text-white disabled:opacity-50">Duplicate</button>
+            <button onClick={() => handleDelete(savedGraph)} disabled={controlsDisabled} className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50">Delete</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
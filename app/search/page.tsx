@@ -1,6 +1,33 @@
 "use client";
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Link from 'next/link'; // Import Link from next/link
+import CollaborationGraph from './CollaborationGraph';
+import ArtistPathFinder from './ArtistPathFinder';
+import GraphExportMenu from './GraphExportMenu';
+import GraphStatsPanel from './GraphStatsPanel';
+import SavedGraphsPanel from './SavedGraphsPanel';
+import {
+  addArtist,
+  computeCollaboratorCounts,
+  createGraph,
+  getSuggestions,
+  hasArtist,
+  ingestTracks,
+  removeArtist,
+  type CollaborationGraph as CollaborationGraphState,
+  type CollaboratorCounts,
+} from '@/lib/graph';
+import { analyzeGraph, communityColorMap, type GraphAnalytics } from '@/lib/graphAnalytics';
+import { GraphImportError, parseGraphExport } from '@/lib/graphExport';
+import { createHistory, nextRedoLabel, nextUndoLabel, recordHistory, redoHistory, undoHistory, type History } from '@/lib/graphHistory';
+import { decodeGraphUrlState, encodeGraphUrlState, type GraphFilters } from '@/lib/graphUrlState';
+import type { SavedGraph } from '@/lib/savedGraphs';
+import { PLAYLIST_ORDERS, orderTracks, type PlaylistOrder } from '@/lib/playlistOrder';
+import { selectPlaylistTracks, type PlaylistSelectionOptions } from '@/lib/playlistSelection';
+import { TRACK_VERSION_TYPES, versionTypeOf, type TrackVersionType } from '@/lib/trackVersions';
+
+// Wait this long after the graph last changed before recomputing the network stats
+const ANALYTICS_DEBOUNCE_MS = 400;
 
 // Define the structure of a Spotify Artist based on what we need
 interface SpotifyArtist {
@@ -24,7 +51,21 @@ interface SpotifyTrack {
 interface SpotifyUserProfile {
   display_name: string;
   id: string;
-  // Add other fields if needed, e.g., email, images
+  country?: string | null;
+}
+
+// A feature the user can't use until they grant more scopes (from /api/auth/check)
+interface UnavailableFeature {
+  id: string;
+  label: string;
+  missingScopes: string[];
+}
+
+// What undo/redo restores: the graph (with its songs), the seed artist and the filters
+interface GraphSnapshot {
+  graph: CollaborationGraphState;
+  selectedArtist: SpotifyArtist | null;
+  filters: GraphFilters;
 }
 
 interface CreatePlaylistRequestBody {
@@ -40,18 +81,43 @@ export default function SearchPage() {
   const [isLoading, setIsLoading] = useState(false); // Loading for artist search
   const [showDropdown, setShowDropdown] = useState(false);
   const [isFetchingSongs, setIsFetchingSongs] = useState(false); // Loading for song fetch
-  const [artistSongs, setArtistSongs] = useState<SpotifyTrack[]>([]); // State for fetched songs
   const [songFetchError, setSongFetchError] = useState<string | null>(null); // State for song fetch errors
-  const [collaborationCount, setCollaborationCount] = useState(0); // State for collaboration count
-  const [suggestedArtists, setSuggestedArtists] = useState<SpotifyArtist[]>([]);
-  // Stores counts for *all* collaborators found, mapping artist ID to name and count
-  const [collaboratorCounts, setCollaboratorCounts] = useState<{ [artistId: string]: { name: string; count: number; images?: { url: string }[] } }>({});
-  const [graphedArtists, setGraphedArtists] = useState<SpotifyArtist[]>([]); // Keep track of artists in the graph
+  // The artists in the graph and their songs; collaborators and suggestions are derived from it below
+  const [graph, setGraph] = useState<CollaborationGraphState>(() => createGraph());
   const [showOnlyCollaborations, setShowOnlyCollaborations] = useState(false); // State for filtering
   const [isCreatingPlaylist, setIsCreatingPlaylist] = useState(false);
   const [playlistCreationStatus, setPlaylistCreationStatus] = useState<{ success: boolean; message: string } | null>(null);
   const [userProfile, setUserProfile] = useState<SpotifyUserProfile | null>(null); // State for user profile
+  const [unavailableFeatures, setUnavailableFeatures] = useState<UnavailableFeature[]>([]); // Features blocked by missing scopes
+  const [makePlaylistPublic, setMakePlaylistPublic] = useState(false);
   const [createdPlaylistUrl, setCreatedPlaylistUrl] = useState<string | null>(null); // State for the created playlist URL
+  const [syncedPlaylistId, setSyncedPlaylistId] = useState<string | null>(null); // Playlist created/synced for the current seed artist
+  const [syncExistingPlaylist, setSyncExistingPlaylist] = useState(false); // Update the playlist created in an earlier visit
+  const [playlistOrder, setPlaylistOrder] = useState<PlaylistOrder>('popularity'); // Applied server-side when creating/updating
+  const [playlistOptions, setPlaylistOptions] = useState<PlaylistSelectionOptions>({}); // Caps and quotas, also applied server-side
+  const [discoveryStrategy, setDiscoveryStrategy] = useState<'search' | 'discography'>('search'); // How /api/artist-songs finds tracks
+  const [includedVersions, setIncludedVersions] = useState<TrackVersionType[]>(() => TRACK_VERSION_TYPES.map(type => type.id)); // Remixes, live cuts...
+  const [separateRemixers, setSeparateRemixers] = useState(false); // Don't count remixer credits as collaborations
+  const [isUrlStateRestored, setIsUrlStateRestored] = useState(false); // The URL is kept in sync with the graph once restored
+  const [graphImportError, setGraphImportError] = useState<string | null>(null);
+  const [activeSavedGraph, setActiveSavedGraph] = useState<SavedGraph | null>(null); // Saved graph currently open, if any
+  const [history, setHistory] = useState<History<GraphSnapshot>>(() => createHistory()); // Undo/redo of graph edits
+  const [colorByCommunity, setColorByCommunity] = useState(false); // Fill graph nodes by detected community
+  const [showGraphStats, setShowGraphStats] = useState(false); // Network stats panel expanded
+  // Latest network stats and the collaborator counts they were computed from
+  const [analyzed, setAnalyzed] = useState<{ counts: CollaboratorCounts; analytics: GraphAnalytics } | null>(null);
+
+  // Snapshot of the current graph state; graph edits record it first so they can be undone.
+  // It holds what a saved graph or the URL holds. The playlist caps and quotas (playlistOptions)
+  // are left out: they shape the playlist rather than the graph, and the number fields change per keystroke.
+  const currentSnapshot = useMemo<GraphSnapshot>(() => ({
+    graph,
+    selectedArtist,
+    filters: { strategy: discoveryStrategy, versions: includedVersions, collaborationsOnly: showOnlyCollaborations, separateRemixers, order: playlistOrder },
+  }), [graph, selectedArtist, discoveryStrategy, includedVersions, showOnlyCollaborations, separateRemixers, playlistOrder]);
+  const recordGraphEdit = useCallback((label: string) => {
+    setHistory(current => recordHistory(current, label, currentSnapshot));
+  }, [currentSnapshot]);
 
   // Ref to track if the input blur was caused by clicking a dropdown item
   const selectingFromDropdown = useRef(false);
@@ -112,199 +178,317 @@ export default function SearchPage() {
     };
   }, [artistQuery, selectedArtist, triggerSearch]);
 
-  // Fetch user profile on component mount
+  // Check the session on mount: validates (and refreshes) the token, and reports the
+  // user's profile plus the features their granted scopes don't allow
   useEffect(() => {
-    const fetchUserProfile = async () => {
+    const fetchAuthStatus = async () => {
       try {
-        const response = await fetch('/api/user/profile');
-        if (response.ok) {
-          const profileData = await response.json();
-          setUserProfile(profileData);
-        } else if (response.status !== 401) {
-           // Only log error if it's not a 401 (Not Authenticated)
-           console.error("Failed to fetch user profile:", response.status);
+        const response = await fetch('/api/auth/check');
+        if (!response.ok) {
+          console.error("Failed to check authentication:", response.status);
+          return;
+        }
+        const status = await response.json();
+        if (status.authenticated) {
+          setUserProfile({ id: status.user.id, display_name: status.user.displayName, country: status.user.country });
+          setUnavailableFeatures(status.unavailableFeatures || []);
         }
-        // No need to handle 401 specifically, userProfile will remain null
+        // Not authenticated: userProfile stays null and the login button is shown
       } catch (error) {
-        console.error("Error fetching user profile:", error);
+        console.error("Error checking authentication:", error);
       }
     };
 
-    fetchUserProfile();
+    fetchAuthStatus();
   }, []); // Empty dependency array ensures this runs only once on mount
 
-  // --- Recalculation Function ---
-  const recalculateGraphState = useCallback((currentGraphArtists: SpotifyArtist[], currentSongs: SpotifyTrack[]) => {
-      console.log("Recalculating graph state with", currentGraphArtists.length, "artists and", currentSongs.length, "songs.");
-      // Reset suggestions and counts before recalculating
-      setSuggestedArtists([]);
-      setCollaboratorCounts({});
-      setCollaborationCount(0);
-
-      if (currentGraphArtists.length === 0) {
-          console.log("Graph is empty, resetting related state.");
-          setArtistSongs([]); // Clear songs
-          setArtistQuery(''); // Clear search input
-          setSelectedArtist(null); // Clear the 'seed' artist display
-          // Suggestions/counts already cleared above
-          return; // Stop calculation if graph is empty
-      }
+  const isFeatureAvailable = (featureId: string) => !unavailableFeatures.some(feature => feature.id === featureId);
+  // Sends the user through Spotify's consent screen again, asking for the missing scopes
+  const consentUrl = (scopes: string[]) => `/api/auth/login?scopes=${encodeURIComponent(scopes.join(' '))}`;
+  const missingScopesFor = (featureId: string) => unavailableFeatures.find(feature => feature.id === featureId)?.missingScopes ?? [];
+  const canCreatePublicPlaylists = isFeatureAvailable('public_playlists');
+  const canSyncPlaylists = isFeatureAvailable('sync_playlists');
 
-      const graphArtistIds = new Set(currentGraphArtists.map(a => a.id));
-      const counts: { [artistId: string]: { name: string; count: number; images?: { url: string }[] } } = {};
-
-      currentSongs.forEach(song => {
-          // Find collaborators on this song who are NOT already in the graph
-          const collaboratorsOnSong = song.artists.filter(a => !graphArtistIds.has(a.id));
-
-          // Only count collaborations if at least one graph artist is also on the song
-          // AND there are collaborators not already in the graph.
-          const isRelevantCollaboration = song.artists.some(a => graphArtistIds.has(a.id)) && collaboratorsOnSong.length > 0;
-
-          if (isRelevantCollaboration) {
-              collaboratorsOnSong.forEach(collabArtist => {
-                   if (!counts[collabArtist.id]) {
-                      const potentialImage = song.album.images && song.album.images.length > 0
-                                              ? song.album.images[song.album.images.length - 1] // Smallest image for potential collaborator
-                                              : undefined;
-                      counts[collabArtist.id] = {
-                          name: collabArtist.name,
-                          count: 0,
-                          images: potentialImage ? [potentialImage] : []
-                      };
-                  }
-                  counts[collabArtist.id].count++;
-              });
-          }
-      });
-
-      // Find the top collaborators *not* already in the graph
-      const potentialCollaborators = Object.entries(counts)
-          .map(([id, data]) => ({ id, ...data })) // Convert to array
-          // No need to filter here, already done by checking graphArtistIds when creating counts
-          .sort((a, b) => b.count - a.count); // Sort by count descending
-
-      // Get the top 10 suggestions
-      const topSuggestions = potentialCollaborators.slice(0, 10).map(collab => ({
-          id: collab.id,
-          name: collab.name,
-          images: collab.images?.length ? collab.images : undefined
-      }));
-
-      const uniquePotentialCollaborators = potentialCollaborators.length;
-
-      // Update states
-      setCollaboratorCounts(counts); // Store counts of ALL potential collaborators (those not in graph)
-      setSuggestedArtists(topSuggestions); // Store the top 10 suggestions
-      setCollaborationCount(uniquePotentialCollaborators); // This count now reflects potential additions
-
-      console.log(`Recalculation done. Found ${uniquePotentialCollaborators} potential collaborators. Top suggestions:`, topSuggestions);
-
-  }, []); // Empty dependency array as setters are stable
-  // --- End Recalculation Function ---
+  // Ends the server-side session; the login button is shown again
+  const handleLogout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
+    setUserProfile(null);
+    setUnavailableFeatures([]);
+  }, []);
+
+  // --- Derived graph state ---
+  const graphedArtists = graph.artists;
+  // The graph without the excluded version types (remixes, live cuts...); everything below uses it
+  const versionFilteredGraph = useMemo(
+    () => ({ ...graph, songs: graph.songs.filter(song => includedVersions.includes(versionTypeOf(song))) }),
+    [graph, includedVersions]
+  );
+  const artistSongs = versionFilteredGraph.songs;
+  // Counts for *all* collaborators not in the graph, mapping artist ID to name and count
+  const collaboratorCounts = useMemo(
+    () => computeCollaboratorCounts(versionFilteredGraph, { separateRemixers }),
+    [versionFilteredGraph, separateRemixers]
+  );
+  const suggestedArtists = useMemo(() => getSuggestions(collaboratorCounts), [collaboratorCounts]); // Top 10 suggestions
+  const collaborationCount = Object.values(collaboratorCounts).filter(collaborator => collaborator.count > 0).length; // Potential additions to the graph
+  // Centrality, communities and bridges of the same network as the export. Betweenness is
+  // quadratic in the number of artists, so the stats are only computed while they're shown (or
+  // color the graph), once the graph has stopped changing for a moment.
+  const needsAnalytics = showGraphStats || colorByCommunity;
+  useEffect(() => {
+    if (!needsAnalytics) return;
+    const timer = setTimeout(() => {
+      setAnalyzed({ counts: collaboratorCounts, analytics: analyzeGraph(versionFilteredGraph, collaboratorCounts) });
+    }, ANALYTICS_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [needsAnalytics, versionFilteredGraph, collaboratorCounts]);
+  const graphAnalytics = analyzed?.analytics ?? null;
+  const isAnalyticsStale = analyzed?.counts !== collaboratorCounts;
+  const communityColors = useMemo(
+    () => (colorByCommunity && graphAnalytics ? communityColorMap(graphAnalytics) : undefined),
+    [colorByCommunity, graphAnalytics]
+  );
+  // --- End Derived graph state ---
+
+  // Keep the URL in sync with the graph and filters so the page can be shared or reloaded
+  const graphedArtistIds = graphedArtists.map(artist => artist.id).join(',');
+  useEffect(() => {
+    if (!isUrlStateRestored) return;
+    const query = encodeGraphUrlState({
+      artistIds: graphedArtistIds ? graphedArtistIds.split(',') : [],
+      strategy: discoveryStrategy,
+      versions: includedVersions,
+      collaborationsOnly: showOnlyCollaborations,
+      separateRemixers,
+      order: playlistOrder,
+    });
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [isUrlStateRestored, graphedArtistIds, discoveryStrategy, includedVersions, showOnlyCollaborations, separateRemixers, playlistOrder]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newQuery = e.target.value;
     setArtistQuery(newQuery);
     // If user types again, clear selection and previous results/errors
     if (selectedArtist) {
+        recordGraphEdit('Start a new search'); // Undo brings the dropped songs back
         setSelectedArtist(null);
-        setArtistSongs([]);
+        setGraph(current => createGraph(current.artists)); // Drop the songs, keep the graphed artists
         setSongFetchError(null);
         setIsFetchingSongs(false);
-        setCollaborationCount(0); // Reset collab count
     }
     setShowDropdown(true); // Ensure dropdown is visible when typing
   };
 
-  // Reusable function to fetch songs and calculate collaborators/suggestion
-  const fetchAndProcessSongs = useCallback(async (
-    artistToFetch: SpotifyArtist,
-    currentSongs: SpotifyTrack[],
-    allGraphArtists: SpotifyArtist[] // All artists currently considered "in the graph"
-  ) => {
+  // Reusable function to fetch an artist's songs and merge them into the graph.
+  // The artist must already have been added to the graph, otherwise their songs are ignored.
+  const fetchAndProcessSongs = useCallback(async (artistToFetch: SpotifyArtist, strategy: 'search' | 'discography' = discoveryStrategy) => {
     console.log(`Fetching songs for ${artistToFetch.name}...`);
     setIsFetchingSongs(true);
     setSongFetchError(null);
-    // Clear previous suggestions when fetching for a new (or added) artist
-    setSuggestedArtists([]);
-    // Keep existing collaborator counts for now, or reset? Resetting seems simpler for now.
-    // We might need a more sophisticated merging strategy later.
-    // Let's recalculate from the full list each time for simplicity.
-    // setCollaboratorCounts({}); // Recalculate based on combined songs later
 
     try {
-      const response = await fetch(`/api/artist-songs?artistId=${artistToFetch.id}&artistName=${encodeURIComponent(artistToFetch.name)}`);
+      // Limit the results to tracks playable in the user's country when it's known
+      const market = userProfile?.country ? `&market=${userProfile.country}` : '';
+      const response = await fetch(`/api/artist-songs?artistId=${artistToFetch.id}&artistName=${encodeURIComponent(artistToFetch.name)}&strategy=${strategy}${market}`);
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: `HTTP error! Status: ${response.status}` }));
+        if (errorData.code === 'rate_limited' && errorData.retryAfter) {
+          throw new Error(`Spotify is rate limiting requests. Please try again in ${errorData.retryAfter} seconds.`);
+        }
         throw new Error(errorData.error || `Failed to fetch songs. Status: ${response.status}`);
       }
       const data = await response.json();
       const newSongs: SpotifyTrack[] = data.songs || [];
       console.log(`Fetched ${newSongs.length} new songs for ${artistToFetch.name}.`);
 
-      // Combine new songs with existing ones
-      // --- Deduplicate Combined Songs ---
-      // Combine old and new songs first
-      const allSongs = [...currentSongs, ...newSongs];
-
-      // Use a Map to track unique songs based on name and sorted artist names
-      const uniqueSongsMap = new Map<string, SpotifyTrack>();
-      allSongs.forEach(song => {
-          // Create a consistent key: song name + sorted artist names
-          const artistNames = song.artists.map(a => a.name).sort().join(',');
-          const uniqueKey = `${song.name}|${artistNames}`;
-          if (!uniqueSongsMap.has(uniqueKey)) {
-              uniqueSongsMap.set(uniqueKey, song);
-          }
-          // Keep the first encountered instance (which might not be the most popular without that data)
-      });
-
-      const deduplicatedSongs = Array.from(uniqueSongsMap.values());
-      console.log(`Combined and deduplicated songs. Total unique songs: ${deduplicatedSongs.length}`);
-      // --- End Deduplication ---
-
-      setArtistSongs(deduplicatedSongs); // Update state with the deduplicated list
-
-      // --- Recalculate Collaborations and Suggestion based on COMBINED songs and ALL graph artists ---
-      recalculateGraphState(allGraphArtists, deduplicatedSongs);
-      // --- End Recalculation ---
+      // Merge into the graph (releases of the same recording collapse via canonicalizeTracks); counts and suggestions update from it
+      setGraph(current => ingestTracks(current, newSongs));
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error("Failed to fetch or process songs:", error);
-      setSongFetchError(error.message || "An unknown error occurred.");
-      // Don't clear songs on error when adding, keep the previously fetched ones
-      // setArtistSongs([]); // Decide if we should revert or keep partial data
-      setCollaborationCount(0); // Reset suggestions on error
-      setSuggestedArtists([]); // Clear suggestions on error
-      setCollaboratorCounts({});
+      setSongFetchError(error instanceof Error ? error.message : "An unknown error occurred.");
+      // Keep the previously fetched songs on error
     } finally {
       setIsFetchingSongs(false);
     }
-  }, [recalculateGraphState]); // Add recalculateGraphState dependency
+  }, [discoveryStrategy, userProfile?.country]);
+
+  const applyGraphFilters = useCallback((filters: GraphFilters) => {
+    setDiscoveryStrategy(filters.strategy);
+    setIncludedVersions(filters.versions);
+    setShowOnlyCollaborations(filters.collaborationsOnly);
+    setSeparateRemixers(filters.separateRemixers);
+    setPlaylistOrder(filters.order);
+  }, []);
+
+  // Starts a new graph from the given artists (seed first) and re-fetches their songs
+  const loadGraph = useCallback(async (artists: SpotifyArtist[], strategy: 'search' | 'discography') => {
+    selectingFromDropdown.current = true;
+    setSelectedArtist(artists[0]);
+    setArtistQuery(artists[0].name);
+    setSongFetchError(null);
+    setGraph(createGraph(artists));
+    try {
+      for (const artist of artists) {
+        await fetchAndProcessSongs(artist, strategy);
+      }
+    } finally {
+      selectingFromDropdown.current = false;
+    }
+  }, [fetchAndProcessSongs]);
+
+  // Restores a shared graph from the URL on first load: applies its filters, looks up its
+  // artists and re-fetches their songs
+  const urlRestoreStarted = useRef(false);
+  useEffect(() => {
+    if (urlRestoreStarted.current) return;
+    urlRestoreStarted.current = true;
+
+    const { artistIds, ...filters } = decodeGraphUrlState(new URLSearchParams(window.location.search));
+    applyGraphFilters(filters);
+    if (artistIds.length === 0) {
+      setIsUrlStateRestored(true);
+      return;
+    }
+
+    const restoreGraph = async () => {
+      try {
+        const response = await fetch(`/api/search-artists?ids=${artistIds.join(',')}`);
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to look up the shared artists. Status: ${response.status}`);
+        }
+        const artists: SpotifyArtist[] = data.artists || [];
+        if (artists.length === 0) {
+          throw new Error("None of the artists in this link could be found.");
+        }
+        console.log(`Restoring graph of ${artists.length} artist(s) from the URL.`);
+        await loadGraph(artists, filters.strategy);
+      } catch (error: unknown) {
+        console.error("Failed to restore graph from URL:", error);
+        setSongFetchError(error instanceof Error ? error.message : "Couldn't restore the shared graph.");
+      } finally {
+        setIsUrlStateRestored(true);
+      }
+    };
+    restoreGraph();
+  }, [applyGraphFilters, loadGraph]);
+
+  // Opens a saved graph: its filters, artists, and the playlist last created from it (so the
+  // playlist button updates that playlist instead of creating another one)
+  const handleOpenSavedGraph = useCallback(async (savedGraph: SavedGraph) => {
+    console.log(`Opening saved graph "${savedGraph.name}" (${savedGraph.artists.length} artists).`);
+    recordGraphEdit(`Open "${savedGraph.name}"`);
+    setActiveSavedGraph(savedGraph);
+    applyGraphFilters(savedGraph.filters);
+    setSyncedPlaylistId(savedGraph.playlistIds[savedGraph.playlistIds.length - 1] ?? null);
+    setCreatedPlaylistUrl(null);
+    setPlaylistCreationStatus(null);
+    await loadGraph(savedGraph.artists, savedGraph.filters.strategy);
+  }, [applyGraphFilters, loadGraph, recordGraphEdit]);
+
+  // --- Undo/redo: restores earlier graphs (with their songs) from history instead of re-fetching ---
+  const restoreSnapshot = useCallback((snapshot: GraphSnapshot) => {
+    setGraph(snapshot.graph);
+    setSelectedArtist(snapshot.selectedArtist);
+    setArtistQuery(snapshot.selectedArtist?.name ?? '');
+    applyGraphFilters(snapshot.filters);
+    setSongFetchError(null);
+  }, [applyGraphFilters]);
+
+  // Not while songs are loading: the fetch would land in the restored graph
+  const handleUndo = useCallback(() => {
+    const step = isFetchingSongs ? null : undoHistory(history, currentSnapshot);
+    if (!step) return;
+    console.log(`Undo: ${step.entry.label}`);
+    setHistory(step.history);
+    restoreSnapshot(step.entry.snapshot);
+  }, [history, currentSnapshot, isFetchingSongs, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const step = isFetchingSongs ? null : redoHistory(history, currentSnapshot);
+    if (!step) return;
+    console.log(`Redo: ${step.entry.label}`);
+    setHistory(step.history);
+    restoreSnapshot(step.entry.snapshot);
+  }, [history, currentSnapshot, isFetchingSongs, restoreSnapshot]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLTextAreaElement || target?.isContentEditable
+        || (target instanceof HTMLInputElement && !['checkbox', 'radio', 'file', 'button'].includes(target.type));
+      if (isTextField) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+  // --- End Undo/redo ---
+
+  // Rebuilds a graph from a JSON export without re-fetching any songs
+  const handleImportGraph = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const importedGraph = parseGraphExport(await file.text());
+      console.log(`Imported graph of ${importedGraph.artists.length} artist(s) and ${importedGraph.songs.length} song(s) from ${file.name}.`);
+      recordGraphEdit(`Import ${file.name}`);
+      setGraph(importedGraph);
+      setSelectedArtist(importedGraph.artists[0]);
+      setArtistQuery(importedGraph.artists[0].name);
+      setSongFetchError(null);
+      setGraphImportError(null);
+      // An imported graph gets its own playlist
+      setActiveSavedGraph(null);
+      setSyncedPlaylistId(null);
+      setCreatedPlaylistUrl(null);
+      setPlaylistCreationStatus(null);
+    } catch (error: unknown) {
+      console.error("Failed to import graph:", error);
+      setGraphImportError(error instanceof GraphImportError ? error.message : "The file couldn't be read.");
+    }
+  }, [recordGraphEdit]);
 
   const handleArtistSelect = useCallback(async (artist: SpotifyArtist) => {
+    recordGraphEdit(`Select ${artist.name}`);
     selectingFromDropdown.current = true;
     setSelectedArtist(artist);
     setArtistQuery(artist.name);
     setSearchResults([]);
     setShowDropdown(false);
-    setArtistSongs([]); // Clear previous songs for a new seed artist
     setSongFetchError(null);
-    setCollaborationCount(0);
-    setCollaboratorCounts({});
-    setSuggestedArtists([]); // Clear previous suggestions
-    setGraphedArtists([artist]); // Start the graph with this artist
+    setGraph(createGraph([artist])); // Start a new graph with this artist (drops previous songs and suggestions)
+    // A new seed artist gets its own playlist (and isn't a saved graph)
+    setActiveSavedGraph(null);
+    setSyncedPlaylistId(null);
+    setCreatedPlaylistUrl(null);
+    setPlaylistCreationStatus(null);
 
     console.log('Selected seed artist:', artist);
 
     // Fetch songs for the newly selected seed artist
-    await fetchAndProcessSongs(artist, [], [artist]); // Pass empty initial songs, and the single artist
+    await fetchAndProcessSongs(artist);
 
     setTimeout(() => {
         selectingFromDropdown.current = false;
     }, 100);
-  }, [fetchAndProcessSongs]); // Add recalculateGraphState dependency
+  }, [fetchAndProcessSongs, recordGraphEdit]);
 
   const handleInputBlur = () => {
     // Hide dropdown on blur only if not clicking an item
@@ -329,47 +513,35 @@ export default function SearchPage() {
     console.log("Adding suggested artist to graph:", artistToAdd);
 
     // Prevent adding if already fetching or if the artist is somehow already in the list
-    if (isFetchingSongs || graphedArtists.some(a => a.id === artistToAdd.id)) {
+    if (isFetchingSongs || hasArtist(graph, artistToAdd.id)) {
         console.log("Already fetching or artist already in graph. Skipping add.");
         return;
     }
 
-    // Add the new artist to the list of graphed artists
-    const updatedGraphedArtists = [...graphedArtists, artistToAdd];
-    setGraphedArtists(updatedGraphedArtists);
-
-    // Clear the current suggestions immediately
-    setSuggestedArtists([]);
+    // Add the new artist to the graph, then fetch their songs into it
+    recordGraphEdit(`Add ${artistToAdd.name}`);
+    setGraph(current => addArtist(current, artistToAdd));
+    await fetchAndProcessSongs(artistToAdd);
 
-    // Fetch songs for the newly added artist and recalculate suggestions
-    // Pass the current songs and the updated list of all artists in the graph
-    await fetchAndProcessSongs(artistToAdd, artistSongs, updatedGraphedArtists);
-
-  }, [graphedArtists, artistSongs, isFetchingSongs, fetchAndProcessSongs, recalculateGraphState]); // Add recalculateGraphState dependency
+  }, [graph, isFetchingSongs, fetchAndProcessSongs, recordGraphEdit]);
 
   // --- Handle Removing an Artist ---
   const handleRemoveArtist = useCallback((artistIdToRemove: string) => {
     console.log("Removing artist:", artistIdToRemove);
 
-    // Filter out the artist to remove
-    const updatedGraphedArtists = graphedArtists.filter(artist => artist.id !== artistIdToRemove);
-    const remainingArtistIds = new Set(updatedGraphedArtists.map(a => a.id));
-
-    // Filter songs: Keep a song only if it includes AT LEAST ONE of the REMAINING artists
-    const updatedSongs = artistSongs.filter(song => {
-      return song.artists.some(artist => remainingArtistIds.has(artist.id));
-    });
-
-    console.log(`Removed artist ${artistIdToRemove}. Remaining artists: ${updatedGraphedArtists.length}. Remaining songs: ${updatedSongs.length}.`);
-
-    // Update state
-    setGraphedArtists(updatedGraphedArtists);
-    setArtistSongs(updatedSongs);
+    // Removes the artist and any songs that no longer include a remaining artist (undo brings them back)
+    recordGraphEdit(`Remove ${graph.artists.find(artist => artist.id === artistIdToRemove)?.name ?? 'artist'}`);
+    const updatedGraph = removeArtist(graph, artistIdToRemove);
+    console.log(`Removed artist ${artistIdToRemove}. Remaining artists: ${updatedGraph.artists.length}. Remaining songs: ${updatedGraph.songs.length}.`);
+    setGraph(updatedGraph);
 
-    // Recalculate suggestions based on the new state
-    recalculateGraphState(updatedGraphedArtists, updatedSongs);
+    if (updatedGraph.artists.length === 0) {
+        console.log("Graph is empty, resetting related state.");
+        setArtistQuery(''); // Clear search input
+        setSelectedArtist(null); // Clear the 'seed' artist display
+    }
 
-  }, [graphedArtists, artistSongs, recalculateGraphState]);
+  }, [graph, recordGraphEdit]);
   // --- End Handle Removing an Artist ---
 
   // --- Calculate filtered songs ---
@@ -382,6 +554,18 @@ export default function SearchPage() {
   });
   // --- End Calculate filtered songs ---
 
+  // Preview of the playlist the server will build: same selection and ordering as /api/create-playlist
+  const playlistPreview = useMemo(() => {
+    const graphArtistIds = graphedArtists.map(artist => artist.id);
+    const selection = selectPlaylistTracks(artistSongs, graphArtistIds, { ...playlistOptions, collaborationsOnly: showOnlyCollaborations });
+    return { ...selection, tracks: orderTracks(selection.tracks, playlistOrder, graphArtistIds) };
+  }, [artistSongs, graphedArtists, playlistOptions, showOnlyCollaborations, playlistOrder]);
+
+  // Number inputs for the playlist options; an empty field means "no limit"
+  const updatePlaylistOption = (option: 'maxTracks' | 'maxPerArtist' | 'minPopularity', value: string) => {
+    setPlaylistOptions(current => ({ ...current, [option]: value === '' ? undefined : Math.max(option === 'minPopularity' ? 0 : 1, Math.floor(Number(value))) }));
+  };
+
   // --- Handle Create Playlist ---
   const handleCreatePlaylist = useCallback(async (songsToPlaylist: SpotifyTrack[]) => {
     if (songsToPlaylist.length === 0) {
@@ -399,7 +583,11 @@ export default function SearchPage() {
     setPlaylistCreationStatus(null); // Clear previous status messages
     setCreatedPlaylistUrl(null); // Reset playlist URL on new attempt
 
-    console.log(`Attempting to create playlist for ${selectedArtist.name} with ${songsToPlaylist.length} songs.`);
+    // Update the playlist from this visit, or look for the one created earlier for this seed artist
+    const syncTarget = canSyncPlaylists && syncedPlaylistId ? { mode: 'sync', playlistId: syncedPlaylistId }
+        : canSyncPlaylists && syncExistingPlaylist ? { mode: 'sync' }
+        : { mode: 'create' };
+    console.log(`Attempting to ${syncTarget.mode} playlist for ${selectedArtist.name} with ${songsToPlaylist.length} songs.`);
 
     try {
         // Prepare song URIs for the API
@@ -422,6 +610,13 @@ export default function SearchPage() {
                 playlistName: `Artist Graph: ${selectedArtist.name} & Connections`,
                 description: `Songs featuring ${selectedArtist.name} and their collaborators discovered via Artist Graph.`,
                 trackUris: songUris, // Corrected field name
+                public: makePlaylistPublic && canCreatePublicPlaylists,
+                syncKey: selectedArtist.id, // Marks the playlist so a later visit can update it
+                order: playlistOrder,
+                ...playlistOptions,
+                collaborationsOnly: showOnlyCollaborations,
+                graphArtistIds: graphedArtists.map(artist => artist.id), // Seed first
+                ...syncTarget,
             }),
         });
 
@@ -446,10 +641,30 @@ export default function SearchPage() {
         }
 
         console.log("Playlist creation successful:", result);
-        // Store the URL instead of setting a message
+        if (result.playlistId) {
+            setSyncedPlaylistId(result.playlistId); // Later clicks update this playlist
+            // Remember the playlist on the open saved graph, so reopening it updates the same playlist
+            if (activeSavedGraph && !activeSavedGraph.playlistIds.includes(result.playlistId)) {
+                fetch(`/api/graphs/${activeSavedGraph.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ playlistIds: [...activeSavedGraph.playlistIds, result.playlistId] }),
+                })
+                    .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Status ${response.status}`))))
+                    .then(data => setActiveSavedGraph(data.graph))
+                    .catch(error => console.error("Failed to record the playlist on the saved graph:", error));
+            }
+        }
+        // Store the URL; only updates of an existing playlist get a message
         if (result.playlistUrl) {
             setCreatedPlaylistUrl(result.playlistUrl);
-            setPlaylistCreationStatus({ success: true, message: '' }); // Indicate success but no message needed
+            const { added = 0, removed = 0, moved = 0 } = result.changes || {};
+            const { market, unplayable = 0 } = result.availability || {};
+            const skipped = unplayable > 0 ? ` Skipped ${unplayable} track${unplayable === 1 ? '' : 's'} not playable in ${market}.` : '';
+            const message = (result.created !== false ? ''
+                : added + removed + moved === 0 ? 'Playlist is already up to date.'
+                : `Playlist updated: ${added} added, ${removed} removed, ${moved} moved.`) + skipped;
+            setPlaylistCreationStatus({ success: true, message: message.trim() });
         } else {
             console.error("Playlist created but URL missing in response:", result);
             setPlaylistCreationStatus({ success: false, message: "Playlist created, but couldn't get the URL." });
@@ -461,7 +676,7 @@ export default function SearchPage() {
     } finally {
         setIsCreatingPlaylist(false);
     }
-  }, [selectedArtist]); // Removed artistSongs dependency as filteredSongs are passed directly
+  }, [selectedArtist, makePlaylistPublic, canCreatePublicPlaylists, canSyncPlaylists, syncedPlaylistId, syncExistingPlaylist, playlistOrder, playlistOptions, showOnlyCollaborations, graphedArtists, activeSavedGraph]); // Removed artistSongs dependency as filteredSongs are passed directly
   // --- End Handle Create Playlist ---
 
   const artistImageUrl = selectedArtist?.images?.[0]?.url || '/default-artist.png'; // Fallback image
@@ -479,6 +694,29 @@ export default function SearchPage() {
         {userProfile && (
           <div className="text-right text-sm text-gray-400">
             Logged in as: {userProfile.display_name}
+            <button
+              onClick={handleLogout}
+              className="ml-3 text-xs text-gray-400 underline hover:text-white focus:outline-none"
+            >
+              Log out
+            </button>
+          </div>
+        )}
+
+        {/* Missing permissions - offer incremental re-consent */}
+        {userProfile && unavailableFeatures.length > 0 && (
+          <div className="p-3 bg-gray-800 rounded-md text-sm text-gray-300">
+            <p className="text-yellow-400 mb-1">Some features need additional Spotify permissions:</p>
+            <ul className="space-y-1">
+              {unavailableFeatures.map(feature => (
+                <li key={feature.id} className="flex justify-between items-center">
+                  <span>{feature.label}</span>
+                  <a href={consentUrl(feature.missingScopes)} className="text-xs text-green-400 underline hover:text-green-300">
+                    Grant access
+                  </a>
+                </li>
+              ))}
+            </ul>
           </div>
         )}
 
@@ -552,6 +790,106 @@ export default function SearchPage() {
           )}
         </div>
 
+        {/* Undo/redo of graph edits */}
+        {(nextUndoLabel(history) || nextRedoLabel(history)) && (
+          <div className="flex gap-2 text-sm">
+            <button
+              onClick={handleUndo}
+              disabled={!nextUndoLabel(history) || isFetchingSongs}
+              className="px-2 py-1 rounded bg-gray-700 text-gray-100 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed truncate"
+              title="Undo (Ctrl+Z)"
+            >
+              ↶ Undo{nextUndoLabel(history) ? `: ${nextUndoLabel(history)}` : ''}
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!nextRedoLabel(history) || isFetchingSongs}
+              className="px-2 py-1 rounded bg-gray-700 text-gray-100 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed truncate"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              ↷ Redo{nextRedoLabel(history) ? `: ${nextRedoLabel(history)}` : ''}
+            </button>
+          </div>
+        )}
+
+        {/* Track Discovery Strategy */}
+        <label className="flex items-center justify-between text-sm text-gray-400">
+          <span>Track discovery:</span>
+          <select
+            value={discoveryStrategy}
+            onChange={(e) => {
+              recordGraphEdit('Change track discovery');
+              setDiscoveryStrategy(e.target.value as 'search' | 'discography');
+            }}
+            disabled={isFetchingSongs}
+            className="ml-2 p-1 rounded bg-gray-700 border border-gray-600 text-gray-100"
+            title="Search is faster; discography walks every release and finds tracks name search misses"
+          >
+            <option value="search">Name search (fast)</option>
+            <option value="discography">Full discography (thorough)</option>
+          </select>
+        </label>
+
+        {/* Version filter: which kinds of tracks count towards the graph and playlist */}
+        <div className="text-sm text-gray-400">
+          <span>Include versions:</span>
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+            {TRACK_VERSION_TYPES.map(type => (
+              <label key={type.id} className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includedVersions.includes(type.id)}
+                  onChange={(e) => {
+                    recordGraphEdit(`${e.target.checked ? 'Include' : 'Exclude'} ${type.label.toLowerCase()}`);
+                    setIncludedVersions(current => e.target.checked ? [...current, type.id] : current.filter(id => id !== type.id));
+                  }}
+                  className="mr-1 h-3 w-3 rounded border-gray-500 bg-gray-700 text-green-500 focus:ring-green-600"
+                />
+                {type.label}
+              </label>
+            ))}
+          </div>
+          <label className="mt-1 flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={separateRemixers}
+              onChange={(e) => {
+                recordGraphEdit(e.target.checked ? 'Count remixers separately' : 'Count remixers as collaborators');
+                setSeparateRemixers(e.target.checked);
+              }}
+              className="mr-1 h-3 w-3 rounded border-gray-500 bg-gray-700 text-green-500 focus:ring-green-600"
+            />
+            Count remixers separately from collaborators
+          </label>
+        </div>
+
+        {/* Saved graphs of the logged-in user */}
+        {userProfile && (
+          <SavedGraphsPanel
+            artists={graphedArtists}
+            filters={{ strategy: discoveryStrategy, versions: includedVersions, collaborationsOnly: showOnlyCollaborations, separateRemixers, order: playlistOrder }}
+            activeGraph={activeSavedGraph}
+            onActiveGraphChange={setActiveSavedGraph}
+            onOpen={handleOpenSavedGraph}
+            disabled={isFetchingSongs}
+          />
+        )}
+
+        {/* Import a graph exported as JSON */}
+        <div className="text-sm text-gray-400">
+          <label className="flex items-center justify-between cursor-pointer">
+            <span>Import graph (JSON export):</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportGraph}
+              disabled={isFetchingSongs}
+              className="ml-2 w-40 text-xs text-gray-300 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-gray-700 file:text-gray-100"
+            />
+          </label>
+          {graphImportError && <p className="mt-1 text-xs text-red-400">{graphImportError}</p>}
+        </div>
+
         {/* Selected Artist Display */}
         {selectedArtist && (
           <div className="mt-4 p-4 rounded bg-[#191414] text-white flex items-center gap-4 shadow">
@@ -672,6 +1010,7 @@ export default function SearchPage() {
                   {collaboratorCounts[suggestedArtist.id] && ( // Use map variable's ID
                     <p className="text-xs text-purple-400 group-hover:text-purple-300"> {/* Adjusted text colors */}
                       {collaboratorCounts[suggestedArtist.id].count} collaboration song(s) found {/* Use map variable's ID */}
+                      {collaboratorCounts[suggestedArtist.id].remixCount ? `, ${collaboratorCounts[suggestedArtist.id].remixCount} remix(es)` : ''}
                     </p>
                   )}
                 </div>
@@ -696,6 +1035,9 @@ export default function SearchPage() {
          {!isFetchingSongs && suggestedArtists.length === 0 && graphedArtists.length > 0 && collaborationCount === 0 && (
              <p className="text-sm text-gray-500 mt-4">No further collaborations found based on the current graph.</p>
          )}
+
+        {/* Degrees of Separation: shortest collaboration path between two artists */}
+        <ArtistPathFinder market={userProfile?.country ?? undefined} />
       </div>
 
       {/* Right Panel: Selected Artist Details & Playlist */}
@@ -723,6 +1065,30 @@ export default function SearchPage() {
         {/* Show Playlist Section (only if not loading, no error, and graph has artists) */}
         {!isFetchingSongs && !songFetchError && graphedArtists.length > 0 && (
            <div className="p-4 flex-grow flex flex-col"> {/* Adjusted: Removed rounded-lg/bg-gray-800 (now on parent), Added flex-grow/flex-col */}
+            {/* Collaboration Graph Visualization */}
+            <div className="mb-4">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-xl font-semibold text-white">Collaboration Graph</h2>
+                <GraphExportMenu graph={versionFilteredGraph} collaboratorCounts={collaboratorCounts} name={graphedArtists[0]?.name || 'graph'} />
+              </div>
+              <CollaborationGraph
+                graphedArtists={graphedArtists}
+                collaboratorCounts={collaboratorCounts}
+                songs={artistSongs}
+                onAddArtist={handleAddSuggestedArtist}
+                disabled={isFetchingSongs}
+                nodeColors={communityColors}
+              />
+              <p className="text-xs text-gray-500 mt-1">Edge thickness shows shared tracks. Click a dashed node to add that collaborator; drag nodes to rearrange.</p>
+            </div>
+            <GraphStatsPanel
+              analytics={graphAnalytics}
+              isUpdating={isAnalyticsStale}
+              open={showGraphStats}
+              onOpenChange={setShowGraphStats}
+              colorByCommunity={colorByCommunity}
+              onColorByCommunityChange={setColorByCommunity}
+            />
             {/* Playlist Header */}
             <div className="flex justify-between items-center mb-3 pb-2 border-b border-gray-700"> {/* Added border */}
               <h2 className="text-xl font-semibold text-white">
@@ -736,7 +1102,10 @@ export default function SearchPage() {
                   type="checkbox"
                   id="collabFilter"
                   checked={showOnlyCollaborations}
-                  onChange={(e) => setShowOnlyCollaborations(e.target.checked)}
+                  onChange={(e) => {
+                    recordGraphEdit(e.target.checked ? 'Show only collaborations' : 'Show all songs');
+                    setShowOnlyCollaborations(e.target.checked);
+                  }}
                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-green-500 focus:ring-green-600 cursor-pointer mr-2" /* Adjusted colors */
                 />
                 <span className="select-none"> {/* Removed redundant classes */}
@@ -786,15 +1155,135 @@ export default function SearchPage() {
                       </a>
                  )}
 
-                 {/* Create Playlist Button (only if no URL exists or creation failed) */}
-                 {(!createdPlaylistUrl || !playlistCreationStatus?.success) && (
+                 {/* Track order for the playlist */}
+                 {userProfile && (
+                     <label className="flex items-center justify-between text-sm text-gray-300">
+                         <span>Playlist order</span>
+                         <select
+                             value={playlistOrder}
+                             onChange={(e) => {
+                                 const order = e.target.value as PlaylistOrder;
+                                 recordGraphEdit(`Order playlist: ${PLAYLIST_ORDERS.find(option => option.id === order)?.label ?? order}`);
+                                 setPlaylistOrder(order);
+                             }}
+                             className="ml-2 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                         >
+                             {PLAYLIST_ORDERS.map(order => (
+                                 <option key={order.id} value={order.id}>{order.label}</option>
+                             ))}
+                         </select>
+                     </label>
+                 )}
+
+                 {/* Size caps and quotas, with a preview of the resulting selection */}
+                 {userProfile && (
+                     <div className="text-sm text-gray-300 space-y-2">
+                         <div className="grid grid-cols-3 gap-2">
+                             {([
+                                 ['maxTracks', 'Max tracks', 1, 10000],
+                                 ['maxPerArtist', 'Max per artist', 1, 10000],
+                                 ['minPopularity', 'Min popularity', 0, 100],
+                             ] as const).map(([option, label, min, max]) => (
+                                 <label key={option} className="flex flex-col text-xs text-gray-400">
+                                     {label}
+                                     <input
+                                         type="number"
+                                         min={min}
+                                         max={max}
+                                         placeholder="Any"
+                                         value={playlistOptions[option] ?? ''}
+                                         onChange={(e) => updatePlaylistOption(option, e.target.value)}
+                                         className="mt-1 px-2 py-1 rounded-md bg-gray-700 border border-gray-600 text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                                     />
+                                 </label>
+                             ))}
+                         </div>
+                         <label className="flex items-center cursor-pointer">
+                             <input
+                                 type="checkbox"
+                                 checked={!!playlistOptions.balanced}
+                                 onChange={(e) => setPlaylistOptions(current => ({ ...current, balanced: e.target.checked }))}
+                                 className="mr-2 h-4 w-4 rounded border-gray-500 bg-gray-700 text-green-600 focus:ring-green-500"
+                             />
+                             Share tracks evenly between graphed artists
+                         </label>
+                         <details className="bg-gray-900 rounded-md p-2">
+                             <summary className="cursor-pointer text-gray-300">
+                                 Preview: {playlistPreview.tracks.length} of {artistSongs.length} tracks
+                             </summary>
+                             <p className="mt-1 text-xs text-gray-500">
+                                 Excluded: {playlistPreview.excluded.lowPopularity} below popularity, {playlistPreview.excluded.notCollaboration} solo, {playlistPreview.excluded.artistQuota} over artist quota, {playlistPreview.excluded.sizeCap} over size cap
+                             </p>
+                             <ol className="mt-2 max-h-48 overflow-y-auto list-decimal list-inside text-xs text-gray-300 space-y-0.5">
+                                 {playlistPreview.tracks.map(song => (
+                                     <li key={song.uri} className="truncate">
+                                         {song.name} <span className="text-gray-500">- {song.artists.map(artist => artist.name).join(', ')}</span>
+                                     </li>
+                                 ))}
+                             </ol>
+                         </details>
+                     </div>
+                 )}
+
+                 {/* Update the playlist created on an earlier visit instead of creating another one */}
+                 {userProfile && !syncedPlaylistId && (
+                     canSyncPlaylists ? (
+                         <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+                             <input
+                                 type="checkbox"
+                                 checked={syncExistingPlaylist}
+                                 onChange={(e) => setSyncExistingPlaylist(e.target.checked)}
+                                 className="mr-2 h-4 w-4 rounded border-gray-500 bg-gray-700 text-green-600 focus:ring-green-500"
+                             />
+                             Update my existing playlist for this artist
+                         </label>
+                     ) : (
+                         <a href={consentUrl(missingScopesFor('sync_playlists'))} className="text-xs text-gray-400 underline hover:text-white">
+                             Allow updating existing playlists
+                         </a>
+                     )
+                 )}
+
+                 {/* Public/private choice - public playlists need the playlist-modify-public scope */}
+                 {userProfile && !syncedPlaylistId && (
+                     canCreatePublicPlaylists ? (
+                         <label className="flex items-center text-sm text-gray-300 cursor-pointer">
+                             <input
+                                 type="checkbox"
+                                 checked={makePlaylistPublic}
+                                 onChange={(e) => setMakePlaylistPublic(e.target.checked)}
+                                 className="mr-2 h-4 w-4 rounded border-gray-500 bg-gray-700 text-green-600 focus:ring-green-500"
+                             />
+                             Make playlist public
+                         </label>
+                     ) : (
+                         <a href={consentUrl(missingScopesFor('public_playlists'))} className="text-xs text-gray-400 underline hover:text-white">
+                             Allow creating public playlists
+                         </a>
+                     )
+                 )}
+
+                 {/* Without the playlist scope, ask for it instead of offering a button that would fail */}
+                 {userProfile && !isFeatureAvailable('private_playlists') && (
+                      <a
+                         href={consentUrl(missingScopesFor('private_playlists'))}
+                         className="w-full block text-center px-5 py-2 rounded-md bg-yellow-600 text-white font-semibold hover:bg-yellow-700 transition duration-150 ease-in-out shadow-sm hover:shadow"
+                      >
+                         Grant Spotify playlist access
+                      </a>
+                 )}
+
+                 {/* Create Playlist Button; once created (and if the scopes allow it) it updates that playlist */}
+                 {(!createdPlaylistUrl || !playlistCreationStatus?.success || (syncedPlaylistId && canSyncPlaylists)) && (!userProfile || isFeatureAvailable('private_playlists')) && (
                       <button
                          onClick={() => handleCreatePlaylist(filteredSongs)} // Pass filtered songs
-                         disabled={isCreatingPlaylist || filteredSongs.length === 0}
+                         disabled={isCreatingPlaylist || filteredSongs.length === 0 || playlistPreview.tracks.length === 0}
                          className={`w-full px-5 py-2 rounded-md bg-green-600 text-white font-semibold hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow ${isCreatingPlaylist ? 'animate-pulse' : ''}`}
                          title={filteredSongs.length > 0 ? "Create a Spotify playlist from the visible songs" : "No songs to create playlist"}
                       >
-                         {isCreatingPlaylist ? 'Creating...' : 'Create Playlist on Spotify'}
+                         {syncedPlaylistId && canSyncPlaylists
+                             ? (isCreatingPlaylist ? 'Updating...' : 'Update Playlist on Spotify')
+                             : (isCreatingPlaylist ? 'Creating...' : 'Create Playlist on Spotify')}
                       </button>
                  )}
             </div>
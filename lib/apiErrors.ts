@@ -0,0 +1,159 @@
+// lib/apiErrors.ts
+// Typed errors for Spotify API failures and invalid requests, and the uniform JSON error
+// envelope routes respond with:
+//   { error: string, code: ApiErrorCode, status: number, reason?, retryAfter?, details? }
+// `error` stays a human-readable message so existing clients can keep showing it.
+import { NextResponse } from 'next/server';
+
+export type ApiErrorCode =
+  | 'auth_required'
+  | 'permission_denied'
+  | 'insufficient_scope'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'validation_error'
+  | 'internal_error';
+
+export interface ApiErrorOptions {
+  reason?: string;         // Spotify's machine-readable `error.reason`, when present
+  upstreamStatus?: number; // Status Spotify answered with, for errors that originate there
+  details?: unknown;
+}
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  status: number;
+  reason?: string;
+  retryAfter?: number; // Seconds
+  details?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly reason?: string;
+  readonly upstreamStatus?: number;
+  readonly details?: unknown;
+
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.reason = options.reason;
+    this.upstreamStatus = options.upstreamStatus;
+    this.details = options.details;
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      status: this.status,
+      ...(this.reason ? { reason: this.reason } : {}),
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
+
+// Missing, expired or revoked user authentication
+export class AuthError extends ApiError {
+  constructor(message = 'Spotify authentication required. Please login.', options: ApiErrorOptions = {}) {
+    super(message, 401, 'auth_required', options);
+    this.name = 'AuthError';
+  }
+}
+
+// Spotify refused the action, e.g. because the user didn't grant a required scope
+export class PermissionError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions & { missingScope?: boolean } = {}) {
+    super(message, 403, options.missingScope ? 'insufficient_scope' : 'permission_denied', options);
+    this.name = 'PermissionError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, 404, 'not_found', options);
+    this.name = 'NotFoundError';
+  }
+}
+
+// Still rate limited after the request executor's retries
+export class RateLimitError extends ApiError {
+  constructor(message: string, readonly retryAfter: number | null, options: ApiErrorOptions = {}) {
+    super(message, 429, 'rate_limited', options);
+    this.name = 'RateLimitError';
+  }
+
+  toJSON(): ApiErrorBody {
+    return { ...super.toJSON(), ...(this.retryAfter !== null ? { retryAfter: this.retryAfter } : {}) };
+  }
+}
+
+// Spotify failed (5xx, unexpected status or unparsable response)
+export class UpstreamError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, 502, 'upstream_error', options);
+    this.name = 'UpstreamError';
+  }
+}
+
+// The incoming request was invalid (missing or malformed parameters/body)
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, 400, 'validation_error', options);
+    this.name = 'ValidationError';
+  }
+}
+
+// Builds the matching error for a failed Spotify Web API response.
+// `retryAfterMs` is the parsed Retry-After header, if any.
+export function spotifyErrorFromResponse(status: number, body: string, retryAfterMs: number | null = null): ApiError {
+  let message = `Spotify API request failed with status ${status}`;
+  let reason: string | undefined;
+  try {
+    const errorJson = JSON.parse(body);
+    if (errorJson.error?.message) {
+      message = `Spotify API Error: ${errorJson.error.message}`;
+    }
+    reason = errorJson.error?.reason;
+  } catch { /* Ignore if parsing fails */ }
+
+  const options = { reason, upstreamStatus: status };
+  switch (status) {
+    case 400:
+      return new ValidationError(message, options);
+    case 401:
+      return new AuthError(message, options);
+    case 403:
+      return new PermissionError(message, { ...options, missingScope: /scope/i.test(message) });
+    case 404:
+      return new NotFoundError(message, options);
+    case 429:
+      return new RateLimitError(message, retryAfterMs === null ? null : Math.ceil(retryAfterMs / 1000), options);
+    default:
+      return new UpstreamError(message, options);
+  }
+}
+
+// Converts any thrown value into the JSON error envelope. Unexpected errors become a 500
+// with `fallbackMessage` (their own message is kept in `details`), or with their own message.
+export function errorResponse(error: unknown, fallbackMessage?: string): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    const body = error.toJSON();
+    const headers: Record<string, string> = {};
+    if (body.retryAfter !== undefined) {
+      headers['Retry-After'] = String(body.retryAfter);
+    }
+    return NextResponse.json(body, { status: error.status, headers });
+  }
+  const errorMessage = error instanceof Error && error.message ? error.message : undefined;
+  const body: ApiErrorBody = fallbackMessage
+    ? { error: fallbackMessage, code: 'internal_error', status: 500, ...(errorMessage ? { details: errorMessage } : {}) }
+    : { error: errorMessage || 'Internal server error', code: 'internal_error', status: 500 };
+  return NextResponse.json(body, { status: 500 });
+}
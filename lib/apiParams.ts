@@ -0,0 +1,10 @@
+// lib/apiParams.ts
+// Small helpers for validating query string parameters in API routes.
+
+// Parses an optional non-negative integer query parameter, returning null if it is invalid
+export function parseNonNegativeInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) return null;
+  return parsed;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findArtistPath } from './artistPath';
+import { getCurrentRequestBudget } from './requestExecutor';
+import { findSongsByArtist } from './spotify';
+import type { SpotifyTrack } from './spotifyTypes';
+
+vi.mock('./spotify', () => ({ findSongsByArtist: vi.fn() }));
+
+const findSongs = vi.mocked(findSongsByArtist);
+
+function track(id: string, artistIds: string[]): SpotifyTrack {
+  return {
+    id,
+    name: `Track ${id}`,
+    artists: artistIds.map(artistId => ({ id: artistId, name: artistId.toUpperCase() })),
+    album: { name: `Album ${id}` },
+    uri: `spotify:track:${id}`,
+  };
+}
+
+// a - b - c - d - e, where a also works with x and y, and z works with nobody
+const catalog: Record<string, SpotifyTrack[]> = {
+  a: [track('ab', ['a', 'b']), track('ax', ['a', 'x']), track('ay', ['a', 'y'])],
+  b: [track('ab', ['a', 'b']), track('bc1', ['b', 'c']), track('bc2', ['b', 'c'])],
+  c: [track('bc1', ['b', 'c']), track('bc2', ['b', 'c']), track('bc1', ['b', 'c']), track('cd', ['c', 'd'])],
+  d: [track('cd', ['c', 'd']), track('de', ['d', 'e'])],
+  e: [track('de', ['d', 'e'])],
+};
+
+const artist = (id: string) => ({ id, name: id.toUpperCase() });
+const cached = new Set<string>();
+
+describe('findArtistPath', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    cached.clear();
+    findSongs.mockReset();
+    // Uncached lookups cost one request against the search's budget
+    findSongs.mockImplementation(async artistId => {
+      if (!cached.has(artistId)) getCurrentRequestBudget()?.consume();
+      return catalog[artistId] ?? [];
+    });
+  });
+
+  it('meets in the middle by expanding the smaller frontier', async () => {
+    const result = await findArtistPath(artist('a'), artist('e'), { maxDepth: 6, maxRequests: 10 });
+    expect(result.found).toBe(true);
+    expect(result.artists.map(({ id }) => id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    // After a, its three collaborators outnumber e's side, so the search works back from e
+    expect(findSongs.mock.calls.map(([artistId]) => artistId)).toEqual(['a', 'e', 'd', 'c']);
+    expect(result.requestsUsed).toBe(4);
+  });
+
+  it('lists the tracks shared on each hop, once each', async () => {
+    const { hops } = await findArtistPath(artist('a'), artist('e'), { maxDepth: 6, maxRequests: 10 });
+    expect(hops.map(hop => [hop.from.id, hop.to.id, hop.tracks.map(shared => shared.id)])).toEqual([
+      ['a', 'b', ['ab']],
+      ['b', 'c', ['bc1', 'bc2']],
+      ['c', 'd', ['cd']],
+      ['d', 'e', ['de']],
+    ]);
+    expect(hops[0].tracks[0]).toEqual({ id: 'ab', name: 'Track ab', uri: 'spotify:track:ab' });
+  });
+
+  it('stops at the hop limit', async () => {
+    const result = await findArtistPath(artist('a'), artist('e'), { maxDepth: 2, maxRequests: 10 });
+    expect(result).toMatchObject({ found: false, reason: 'depth_limit', artists: [], hops: [] });
+    expect(findSongs).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops once the request budget is spent', async () => {
+    const result = await findArtistPath(artist('a'), artist('e'), { maxDepth: 6, maxRequests: 2 });
+    expect(result).toMatchObject({ found: false, reason: 'budget_exhausted', requestsUsed: 2 });
+  });
+
+  it("doesn't charge cached artists against the budget", async () => {
+    cached.add('a').add('e');
+    const result = await findArtistPath(artist('a'), artist('e'), { maxDepth: 6, maxRequests: 2 });
+    expect(result).toMatchObject({ found: true, requestsUsed: 2 });
+  });
+
+  it('looks tracks up with the given strategy and market', async () => {
+    await findArtistPath(artist('a'), artist('e'), { maxDepth: 6, maxRequests: 10, strategy: 'discography', market: 'SE' });
+    expect(findSongs).toHaveBeenCalledWith('a', 'A', 'discography', { market: 'SE' });
+  });
+
+  it('reports artists without a connection', async () => {
+    const result = await findArtistPath(artist('a'), artist('z'), { maxDepth: 6, maxRequests: 10 });
+    expect(result).toMatchObject({ found: false, reason: 'no_connection' });
+  });
+
+  it('returns an empty path from an artist to itself', async () => {
+    const result = await findArtistPath(artist('a'), artist('a'), { maxDepth: 6, maxRequests: 10 });
+    expect(result).toEqual({ from: artist('a'), to: artist('a'), found: true, artists: [artist('a')], hops: [], requestsUsed: 0 });
+    expect(findSongs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+// lib/artistPath.ts
+// "Degrees of separation": shortest collaboration path between two artists,
+// found with a bidirectional breadth-first search over shared tracks.
+import { findSongsByArtist, type SpotifyTrack, type TrackDiscoveryStrategy } from './spotify';
+import type { SharedTrack } from './collaborationCrawler';
+import { RequestBudget, RequestBudgetExceededError, withRequestBudget } from './requestExecutor';
+
+export interface PathSearchOptions {
+  maxDepth: number;    // Maximum number of hops in the returned path
+  maxRequests: number; // Budget of Spotify API calls; cached artists don't count against it
+  strategy?: TrackDiscoveryStrategy;
+  market?: string;     // Country code for track lookups; cached per market (see lib/spotify.ts)
+}
+
+export interface PathHop {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  tracks: SharedTrack[]; // Tracks on which both artists are credited
+}
+
+export interface ArtistPathResult {
+  found: boolean;
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  artists: { id: string; name: string }[]; // Chain of artists from `from` to `to` (empty if not found)
+  hops: PathHop[];
+  requestsUsed: number;
+  // Why the search stopped without a path: both sides ran out of artists, hit the hop limit, or the request budget
+  reason?: 'no_connection' | 'depth_limit' | 'budget_exhausted';
+}
+
+interface VisitedEntry {
+  name: string;
+  depth: number;
+  parent: string | null;     // Neighbour closer to this side's origin
+  tracks: SharedTrack[];     // Tracks linking this artist with `parent`
+}
+
+type Side = {
+  visited: Map<string, VisitedEntry>;
+  frontier: string[];
+  depth: number;
+};
+
+export async function findArtistPath(
+  from: { id: string; name: string },
+  to: { id: string; name: string },
+  options: PathSearchOptions
+): Promise<ArtistPathResult> {
+  const baseResult = { from, to };
+
+  if (from.id === to.id) {
+    return { ...baseResult, found: true, artists: [from], hops: [], requestsUsed: 0 };
+  }
+
+  const budget = new RequestBudget(options.maxRequests);
+
+  const forward: Side = {
+    visited: new Map([[from.id, { name: from.name, depth: 0, parent: null, tracks: [] }]]),
+    frontier: [from.id],
+    depth: 0,
+  };
+  const backward: Side = {
+    visited: new Map([[to.id, { name: to.name, depth: 0, parent: null, tracks: [] }]]),
+    frontier: [to.id],
+    depth: 0,
+  };
+
+  // Groups an artist's tracks by the collaborators credited on them
+  const tracksByCollaborator = (artistId: string, tracks: SpotifyTrack[]) => {
+    const grouped = new Map<string, { name: string; tracks: SharedTrack[] }>();
+    tracks.forEach(track => {
+      track.artists.forEach(artist => {
+        if (artist.id === artistId) return;
+        const entry = grouped.get(artist.id) || { name: artist.name, tracks: [] };
+        if (!entry.tracks.some(t => t.id === track.id)) {
+          entry.tracks.push({ id: track.id, name: track.name, uri: track.uri });
+        }
+        grouped.set(artist.id, entry);
+      });
+    });
+    return grouped;
+  };
+
+  // Walks parent pointers from `id` back to the origin of `side`
+  const chainToOrigin = (side: Side, id: string) => {
+    const chain: { id: string; name: string; tracks: SharedTrack[] }[] = [];
+    let current: string | null = id;
+    while (current) {
+      const entry: VisitedEntry = side.visited.get(current)!;
+      chain.push({ id: current, name: entry.name, tracks: entry.tracks });
+      current = entry.parent;
+    }
+    return chain;
+  };
+
+  const buildPath = (meetingId: string): ArtistPathResult => {
+    // forwardChain: meeting -> ... -> from, backwardChain: meeting -> ... -> to
+    const forwardChain = chainToOrigin(forward, meetingId).reverse();
+    const backwardChain = chainToOrigin(backward, meetingId);
+
+    const hops: PathHop[] = [];
+    for (let i = 1; i < forwardChain.length; i++) {
+      hops.push({
+        from: { id: forwardChain[i - 1].id, name: forwardChain[i - 1].name },
+        to: { id: forwardChain[i].id, name: forwardChain[i].name },
+        tracks: forwardChain[i].tracks,
+      });
+    }
+    for (let i = 1; i < backwardChain.length; i++) {
+      hops.push({
+        from: { id: backwardChain[i - 1].id, name: backwardChain[i - 1].name },
+        to: { id: backwardChain[i].id, name: backwardChain[i].name },
+        tracks: backwardChain[i - 1].tracks,
+      });
+    }
+
+    const artists = [...forwardChain, ...backwardChain.slice(1)].map(({ id, name }) => ({ id, name }));
+    console.log(`[ArtistPath] Found path with ${hops.length} hop(s) after ${budget.requestsUsed} request(s): ${artists.map(a => a.name).join(' -> ')}`);
+    return { ...baseResult, found: true, artists, hops, requestsUsed: budget.requestsUsed };
+  };
+
+  while (forward.frontier.length > 0 && backward.frontier.length > 0) {
+    if (forward.depth + backward.depth >= options.maxDepth) {
+      return { ...baseResult, found: false, artists: [], hops: [], requestsUsed: budget.requestsUsed, reason: 'depth_limit' };
+    }
+
+    // Always expand the smaller frontier; this keeps the number of crawled artists down
+    const [side, other] = forward.frontier.length <= backward.frontier.length ? [forward, backward] : [backward, forward];
+    const nextFrontier: string[] = [];
+
+    for (const artistId of side.frontier) {
+      const entry = side.visited.get(artistId)!;
+      let tracks: SpotifyTrack[];
+      try {
+        tracks = await withRequestBudget(budget, () => findSongsByArtist(artistId, entry.name, options.strategy, { market: options.market }));
+      } catch (error: unknown) {
+        if (error instanceof RequestBudgetExceededError) {
+          console.warn(`[ArtistPath] Request budget exhausted after ${budget.requestsUsed} requests; stopping search.`);
+          return { ...baseResult, found: false, artists: [], hops: [], requestsUsed: budget.requestsUsed, reason: 'budget_exhausted' };
+        }
+        // A single failing artist shouldn't abort the whole search
+        console.error(`[ArtistPath] Failed to fetch tracks for ${entry.name}:`, error);
+        continue;
+      }
+
+      for (const [collaboratorId, collaborator] of tracksByCollaborator(artistId, tracks)) {
+        if (side.visited.has(collaboratorId)) continue;
+        side.visited.set(collaboratorId, {
+          name: collaborator.name,
+          depth: side.depth + 1,
+          parent: artistId,
+          tracks: collaborator.tracks,
+        });
+        // Any meeting found while expanding a full level is a shortest path
+        if (other.visited.has(collaboratorId)) {
+          return buildPath(collaboratorId);
+        }
+        nextFrontier.push(collaboratorId);
+      }
+    }
+
+    side.frontier = nextFrontier;
+    side.depth++;
+  }
+
+  return { ...baseResult, found: false, artists: [], hops: [], requestsUsed: budget.requestsUsed, reason: 'no_connection' };
+}
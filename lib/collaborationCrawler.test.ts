@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { crawlCollaborationGraph } from './collaborationCrawler';
+import { getCurrentRequestBudget } from './requestExecutor';
+import { findSongsByArtist } from './spotify';
+import type { SpotifyTrack } from './spotifyTypes';
+
+vi.mock('./spotify', () => ({ findSongsByArtist: vi.fn() }));
+
+const findSongs = vi.mocked(findSongsByArtist);
+
+function track(id: string, artistIds: string[]): SpotifyTrack {
+  return {
+    id,
+    name: `Track ${id}`,
+    artists: artistIds.map(artistId => ({ id: artistId, name: artistId.toUpperCase() })),
+    album: { name: `Album ${id}` },
+    uri: `spotify:track:${id}`,
+  };
+}
+
+// nova - orrin - kestrel - lumen, with solenne on one nova/orrin track
+const catalog: Record<string, SpotifyTrack[]> = {
+  nova: [track('1', ['nova', 'orrin']), track('2', ['nova', 'orrin', 'solenne'])],
+  orrin: [track('1', ['nova', 'orrin']), track('3', ['orrin', 'kestrel'])],
+  solenne: [track('2', ['nova', 'orrin', 'solenne'])],
+  kestrel: [track('3', ['orrin', 'kestrel']), track('4', ['kestrel', 'lumen'])],
+  lumen: [track('4', ['kestrel', 'lumen'])],
+};
+
+const seed = { id: 'nova', name: 'NOVA' };
+
+describe('crawlCollaborationGraph', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    findSongs.mockReset();
+    // Each lookup costs one request against the crawl's budget
+    findSongs.mockImplementation(async artistId => {
+      getCurrentRequestBudget()?.consume();
+      return catalog[artistId] ?? [];
+    });
+  });
+
+  it('crawls artists up to the requested depth', async () => {
+    const result = await crawlCollaborationGraph(seed, { depth: 1, maxArtists: 10 });
+    expect(findSongs.mock.calls.map(([artistId]) => artistId)).toEqual(['nova', 'orrin', 'solenne']);
+    expect(result.nodes).toContainEqual({ id: 'kestrel', name: 'KESTREL', depth: 2, crawled: false, trackCount: 0 });
+    expect(result.nodes.map(node => node.id)).not.toContain('lumen');
+    expect(result).toMatchObject({ truncated: false, budgetExhausted: false, requestsUsed: 3, errors: [] });
+  });
+
+  it('only crawls the seed at depth 0', async () => {
+    const result = await crawlCollaborationGraph(seed, { depth: 0, maxArtists: 10 });
+    expect(findSongs).toHaveBeenCalledTimes(1);
+    expect(result.nodes.filter(node => node.crawled).map(node => node.id)).toEqual(['nova']);
+  });
+
+  it('stops at maxArtists and reports the crawl as truncated', async () => {
+    const result = await crawlCollaborationGraph(seed, { depth: 5, maxArtists: 2 });
+    expect(findSongs).toHaveBeenCalledTimes(2);
+    expect(result.nodes.filter(node => node.crawled).map(node => node.id)).toEqual(['nova', 'orrin']);
+    expect(result).toMatchObject({ truncated: true, budgetExhausted: false });
+  });
+
+  it('returns the partial graph once the request budget is spent', async () => {
+    const result = await crawlCollaborationGraph(seed, { depth: 5, maxArtists: 10, maxRequests: 2 });
+    expect(findSongs).toHaveBeenCalledTimes(3);
+    expect(result.nodes.filter(node => node.crawled).map(node => node.id)).toEqual(['nova', 'orrin']);
+    expect(result).toMatchObject({ truncated: true, budgetExhausted: true, requestsUsed: 2, errors: [] });
+  });
+
+  it('crawls each artist once and counts shared tracks once', async () => {
+    const result = await crawlCollaborationGraph(seed, { depth: 5, maxArtists: 10 });
+    expect(findSongs.mock.calls.map(([artistId]) => artistId)).toEqual(['nova', 'orrin', 'solenne', 'kestrel', 'lumen']);
+    const novaOrrin = result.edges.find(edge => edge.source === 'nova' && edge.target === 'orrin');
+    expect(novaOrrin).toMatchObject({ weight: 2 });
+    expect(novaOrrin?.tracks.map(shared => shared.id)).toEqual(['1', '2']);
+    expect(result.edges).toHaveLength(5);
+  });
+
+  it('looks tracks up with the given strategy and market', async () => {
+    await crawlCollaborationGraph(seed, { depth: 0, maxArtists: 10, strategy: 'discography', market: 'SE' });
+    expect(findSongs).toHaveBeenCalledWith('nova', 'NOVA', 'discography', { market: 'SE' });
+  });
+
+  it('records failed artists and keeps crawling', async () => {
+    findSongs.mockImplementationOnce(async () => catalog.nova).mockRejectedValueOnce(new Error('Spotify is down'));
+    const result = await crawlCollaborationGraph(seed, { depth: 1, maxArtists: 10 });
+    expect(result.errors).toEqual([{ artistId: 'orrin', message: 'Spotify is down' }]);
+    expect(result.nodes.find(node => node.id === 'solenne')).toMatchObject({ crawled: true });
+  });
+});
@@ -0,0 +1,136 @@
+// lib/collaborationCrawler.ts
+// Breadth-first crawl of the collaboration network around a seed artist.
+import { findSongsByArtist, type SpotifyTrack, type TrackDiscoveryStrategy } from './spotify';
+import { RequestBudget, RequestBudgetExceededError, withRequestBudget } from './requestExecutor';
+
+export interface CrawlOptions {
+  depth: number;      // How many hops out from the seed to crawl (seed itself is depth 0)
+  maxArtists: number; // Upper bound on the number of artists whose tracks are fetched
+  strategy?: TrackDiscoveryStrategy;
+  market?: string;      // Country code for track lookups; cached per market (see lib/spotify.ts)
+  maxRequests?: number; // Budget of Spotify API calls; the crawl stops early (not fails) once it is spent
+}
+
+export interface CollaborationNode {
+  id: string;
+  name: string;
+  depth: number;      // Hop distance from the seed at which the artist was discovered
+  crawled: boolean;   // Whether this artist's own tracks were fetched
+  trackCount: number; // Number of tracks found for the artist (0 if not crawled)
+}
+
+export interface SharedTrack {
+  id: string;
+  name: string;
+  uri: string;
+}
+
+export interface CollaborationEdge {
+  source: string;
+  target: string;
+  weight: number; // Number of shared tracks
+  tracks: SharedTrack[];
+}
+
+export interface CollaborationGraphResult {
+  seed: { id: string; name: string };
+  depth: number;
+  maxArtists: number;
+  nodes: CollaborationNode[];
+  edges: CollaborationEdge[];
+  truncated: boolean; // True if the crawl stopped early because maxArtists or the request budget was reached
+  budgetExhausted: boolean;
+  requestsUsed: number;
+  errors: { artistId: string; message: string }[];
+}
+
+export async function crawlCollaborationGraph(
+  seed: { id: string; name: string },
+  options: CrawlOptions
+): Promise<CollaborationGraphResult> {
+  const nodes = new Map<string, CollaborationNode>();
+  const edges = new Map<string, CollaborationEdge>();
+  const edgeTrackIds = new Map<string, Set<string>>(); // Avoid counting a track twice when both ends are crawled
+  const errors: { artistId: string; message: string }[] = [];
+  let crawledCount = 0;
+  let truncated = false;
+  let budgetExhausted = false;
+  const budget = new RequestBudget(options.maxRequests ?? Number.POSITIVE_INFINITY);
+
+  nodes.set(seed.id, { id: seed.id, name: seed.name, depth: 0, crawled: false, trackCount: 0 });
+  const queue: CollaborationNode[] = [nodes.get(seed.id)!];
+
+  const addTrack = (track: SpotifyTrack) => {
+    const artistIds = Array.from(new Set(track.artists.map(a => a.id))).sort();
+    for (let i = 0; i < artistIds.length; i++) {
+      for (let j = i + 1; j < artistIds.length; j++) {
+        const key = `${artistIds[i]}|${artistIds[j]}`;
+        const seen = edgeTrackIds.get(key) || new Set<string>();
+        if (seen.has(track.id)) continue;
+        seen.add(track.id);
+        edgeTrackIds.set(key, seen);
+
+        const edge = edges.get(key) || { source: artistIds[i], target: artistIds[j], weight: 0, tracks: [] };
+        edge.weight++;
+        edge.tracks.push({ id: track.id, name: track.name, uri: track.uri });
+        edges.set(key, edge);
+      }
+    }
+  };
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    if (crawledCount >= options.maxArtists) {
+      truncated = true;
+      break;
+    }
+
+    console.log(`[Crawler] Crawling ${current.name} (ID: ${current.id}) at depth ${current.depth}...`);
+    let tracks: SpotifyTrack[];
+    try {
+      tracks = await withRequestBudget(budget, () => findSongsByArtist(current.id, current.name, options.strategy, { market: options.market }));
+    } catch (error: unknown) {
+      if (error instanceof RequestBudgetExceededError) {
+        // Return what we have so far rather than failing the whole crawl
+        console.warn(`[Crawler] Request budget exhausted after ${budget.requestsUsed} requests; stopping crawl.`);
+        truncated = true;
+        budgetExhausted = true;
+        break;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Crawler] Failed to fetch tracks for ${current.name}:`, message);
+      errors.push({ artistId: current.id, message });
+      continue;
+    }
+    crawledCount++;
+    current.crawled = true;
+    current.trackCount = tracks.length;
+
+    tracks.forEach(track => {
+      addTrack(track);
+      track.artists.forEach(artist => {
+        if (nodes.has(artist.id)) return;
+        const node: CollaborationNode = { id: artist.id, name: artist.name, depth: current.depth + 1, crawled: false, trackCount: 0 };
+        nodes.set(artist.id, node);
+        if (node.depth <= options.depth) {
+          queue.push(node);
+        }
+      });
+    });
+  }
+
+  console.log(`[Crawler] Finished crawl from ${seed.name}: ${crawledCount} artists crawled, ${nodes.size} nodes, ${edges.size} edges.`);
+
+  return {
+    seed,
+    depth: options.depth,
+    maxArtists: options.maxArtists,
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+    truncated,
+    budgetExhausted,
+    requestsUsed: budget.requestsUsed,
+    errors,
+  };
+}
@@ -0,0 +1,143 @@
+// lib/forceLayout.ts
+// A small, dependency-free force-directed layout used by the collaboration graph view.
+
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  fixed?: boolean; // Pinned nodes (e.g. while being dragged) are not moved by the simulation
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  repulsion?: number;    // Strength of the node-node repulsive force
+  springLength?: number; // Rest length of edges
+  springStrength?: number;
+  gravity?: number;      // Pull towards the centre of the canvas
+  damping?: number;      // Velocity multiplier applied each tick (0..1)
+}
+
+const DEFAULT_OPTIONS = {
+  repulsion: 2500,
+  springLength: 90,
+  springStrength: 0.04,
+  gravity: 0.02,
+  damping: 0.85,
+};
+
+// Places new nodes on a circle around the centre, keeping the positions of nodes
+// that already exist in `previous` so the layout doesn't jump when the graph changes.
+export function seedLayoutNodes(
+  ids: string[],
+  width: number,
+  height: number,
+  previous: Map<string, LayoutNode> = new Map()
+): LayoutNode[] {
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) / 3;
+
+  return ids.map((id, index) => {
+    const existing = previous.get(id);
+    if (existing) {
+      return { ...existing };
+    }
+    const angle = (2 * Math.PI * index) / Math.max(ids.length, 1);
+    return {
+      id,
+      x: cx + radius * Math.cos(angle) + (Math.random() - 0.5) * 10,
+      y: cy + radius * Math.sin(angle) + (Math.random() - 0.5) * 10,
+      vx: 0,
+      vy: 0,
+    };
+  });
+}
+
+// Advances the simulation by one tick, mutating node positions in place.
+// Returns the total kinetic energy so callers can stop once the layout settles.
+export function stepLayout(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions): number {
+  const { width, height } = options;
+  const repulsion = options.repulsion ?? DEFAULT_OPTIONS.repulsion;
+  const springLength = options.springLength ?? DEFAULT_OPTIONS.springLength;
+  const springStrength = options.springStrength ?? DEFAULT_OPTIONS.springStrength;
+  const gravity = options.gravity ?? DEFAULT_OPTIONS.gravity;
+  const damping = options.damping ?? DEFAULT_OPTIONS.damping;
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const forces = new Map(nodes.map(node => [node.id, { fx: 0, fy: 0 }]));
+
+  // Repulsion between every pair of nodes (O(n^2), fine for the few dozen nodes we draw)
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      let dx = a.x - b.x;
+      let dy = a.y - b.y;
+      let distSq = dx * dx + dy * dy;
+      if (distSq < 0.01) {
+        // Nudge overlapping nodes apart in a random direction
+        dx = Math.random() - 0.5;
+        dy = Math.random() - 0.5;
+        distSq = dx * dx + dy * dy;
+      }
+      const dist = Math.sqrt(distSq);
+      const force = repulsion / distSq;
+      const fa = forces.get(a.id)!;
+      const fb = forces.get(b.id)!;
+      fa.fx += (dx / dist) * force;
+      fa.fy += (dy / dist) * force;
+      fb.fx -= (dx / dist) * force;
+      fb.fy -= (dy / dist) * force;
+    }
+  }
+
+  // Springs along edges; heavier edges pull their endpoints closer together
+  edges.forEach(edge => {
+    const a = byId.get(edge.source);
+    const b = byId.get(edge.target);
+    if (!a || !b) return;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 0.01;
+    const restLength = springLength / Math.sqrt(Math.max(edge.weight, 1));
+    const force = springStrength * (dist - restLength);
+    const fa = forces.get(a.id)!;
+    const fb = forces.get(b.id)!;
+    fa.fx += (dx / dist) * force;
+    fa.fy += (dy / dist) * force;
+    fb.fx -= (dx / dist) * force;
+    fb.fy -= (dy / dist) * force;
+  });
+
+  // Gravity towards the centre, then integrate
+  const cx = width / 2;
+  const cy = height / 2;
+  let energy = 0;
+  nodes.forEach(node => {
+    if (node.fixed) {
+      node.vx = 0;
+      node.vy = 0;
+      return;
+    }
+    const f = forces.get(node.id)!;
+    f.fx += (cx - node.x) * gravity;
+    f.fy += (cy - node.y) * gravity;
+
+    node.vx = (node.vx + f.fx) * damping;
+    node.vy = (node.vy + f.fy) * damping;
+    node.x = Math.min(width - 20, Math.max(20, node.x + node.vx));
+    node.y = Math.min(height - 20, Math.max(20, node.y + node.vy));
+    energy += node.vx * node.vx + node.vy * node.vy;
+  });
+
+  return energy;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addArtist,
+  computeCollaboratorCounts,
+  computeEdges,
+  createGraph,
+  getSuggestions,
+  ingestTracks,
+  removeArtist,
+  type GraphArtist,
+} from './graph';
+import type { SpotifyTrack } from './spotifyTypes';
+
+const nova: GraphArtist = { id: 'nova', name: 'Nova Vale' };
+const kestrel: GraphArtist = { id: 'kestrel', name: 'Kestrel' };
+const orrin: GraphArtist = { id: 'orrin', name: 'DJ Orrin' };
+const solenne: GraphArtist = { id: 'solenne', name: 'Solenne' };
+
+function track(id: string, artists: GraphArtist[], overrides: Partial<SpotifyTrack> = {}): SpotifyTrack {
+  return {
+    id,
+    name: `Track ${id}`,
+    artists: artists.map(({ id: artistId, name }) => ({ id: artistId, name })),
+    album: { name: `Album ${id}`, images: [{ url: `${id}-large` }, { url: `${id}-small` }] },
+    uri: `spotify:track:${id}`,
+    external_ids: { isrc: `ISRC${id}` },
+    ...overrides,
+  };
+}
+
+describe('createGraph', () => {
+  it('starts empty', () => {
+    expect(createGraph()).toEqual({ artists: [], songs: [] });
+  });
+
+  it('dedupes artists and drops tracks without a graphed artist', () => {
+    const graph = createGraph([nova, kestrel, nova], [track('1', [nova]), track('2', [orrin])]);
+    expect(graph.artists).toEqual([nova, kestrel]);
+    expect(graph.songs.map(song => song.id)).toEqual(['1']);
+  });
+});
+
+describe('addArtist', () => {
+  it('appends a new artist without mutating the graph', () => {
+    const graph = createGraph([nova]);
+    const updated = addArtist(graph, kestrel);
+    expect(updated.artists).toEqual([nova, kestrel]);
+    expect(graph.artists).toEqual([nova]);
+  });
+
+  it('returns the same graph for an artist already in it', () => {
+    const graph = createGraph([nova]);
+    expect(addArtist(graph, { ...nova, name: 'Renamed' })).toBe(graph);
+  });
+});
+
+describe('removeArtist', () => {
+  it('prunes tracks that no longer credit a graphed artist', () => {
+    const graph = createGraph([nova, kestrel], [
+      track('1', [nova]),
+      track('2', [kestrel, orrin]),
+      track('3', [nova, kestrel]),
+    ]);
+    const updated = removeArtist(graph, kestrel.id);
+    expect(updated.artists).toEqual([nova]);
+    expect(updated.songs.map(song => song.id)).toEqual(['1', '3']);
+  });
+
+  it('returns the same graph for an unknown artist', () => {
+    const graph = createGraph([nova]);
+    expect(removeArtist(graph, 'unknown')).toBe(graph);
+  });
+});
+
+describe('ingestTracks', () => {
+  it('adds tracks crediting graphed artists and ignores the rest', () => {
+    const graph = ingestTracks(createGraph([nova]), [track('1', [nova, orrin]), track('2', [orrin])]);
+    expect(graph.songs.map(song => song.id)).toEqual(['1']);
+  });
+
+  it('collapses releases of the same recording into the preferred version', () => {
+    const single = track('single', [nova], { external_ids: { isrc: 'SAME' }, album: { name: 'Single', album_type: 'single' } });
+    const album = track('album', [nova], { external_ids: { isrc: 'SAME' }, album: { name: 'Album', album_type: 'album' } });
+    const graph = ingestTracks(ingestTracks(createGraph([nova]), [single]), [album]);
+    expect(graph.songs.map(song => song.id)).toEqual(['album']);
+  });
+});
+
+describe('computeCollaboratorCounts', () => {
+  it('counts shared tracks per collaborator outside the graph', () => {
+    const graph = createGraph([nova], [
+      track('1', [nova, orrin]),
+      track('2', [nova, orrin, solenne]),
+      track('3', [nova]),
+    ]);
+    const counts = computeCollaboratorCounts(graph);
+    expect(counts).toEqual({
+      orrin: { name: 'DJ Orrin', count: 2, images: [{ url: '1-small' }] },
+      solenne: { name: 'Solenne', count: 1, images: [{ url: '2-small' }] },
+    });
+  });
+
+  it('counts a collaborator credited twice on a track once', () => {
+    const graph = createGraph([nova], [track('1', [nova, orrin, orrin])]);
+    expect(computeCollaboratorCounts(graph).orrin.count).toBe(1);
+  });
+
+  it('counts remixer credits separately when asked', () => {
+    const remix = track('1', [nova, orrin], { name: 'Glass - DJ Orrin Remix' });
+    const graph = createGraph([nova], [remix, track('2', [nova, orrin])]);
+    expect(computeCollaboratorCounts(graph).orrin).toMatchObject({ count: 2 });
+    expect(computeCollaboratorCounts(graph, { separateRemixers: true }).orrin).toMatchObject({ count: 1, remixCount: 1 });
+  });
+});
+
+describe('getSuggestions', () => {
+  const counts = {
+    orrin: { name: 'DJ Orrin', count: 1, images: [] },
+    solenne: { name: 'Solenne', count: 3, images: [{ url: 'solenne' }] },
+    kestrel: { name: 'Kestrel', count: 0, remixCount: 2 },
+  };
+
+  it('orders collaborators by shared tracks and skips remix-only credits', () => {
+    expect(getSuggestions(counts)).toEqual([
+      { id: 'solenne', name: 'Solenne', images: [{ url: 'solenne' }], count: 3 },
+      { id: 'orrin', name: 'DJ Orrin', images: undefined, count: 1 },
+    ]);
+  });
+
+  it('applies the limit', () => {
+    expect(getSuggestions(counts, 1).map(suggestion => suggestion.id)).toEqual(['solenne']);
+  });
+});
+
+describe('computeEdges', () => {
+  const songs = [
+    track('1', [nova, orrin]),
+    track('2', [orrin, nova, solenne]),
+    track('3', [nova]),
+  ];
+
+  it('weights each artist pair by its shared tracks', () => {
+    expect(computeEdges(songs)).toEqual([
+      { source: 'nova', target: 'orrin', weight: 2, trackIds: ['1', '2'] },
+      { source: 'nova', target: 'solenne', weight: 1, trackIds: ['2'] },
+      { source: 'orrin', target: 'solenne', weight: 1, trackIds: ['2'] },
+    ]);
+  });
+
+  it('only keeps edges between the given artists', () => {
+    expect(computeEdges(songs, new Set(['nova', 'solenne']))).toEqual([
+      { source: 'nova', target: 'solenne', weight: 1, trackIds: ['2'] },
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+// lib/graph.ts
+// Pure collaboration graph engine: the artists being explored, the tracks found for them,
+// and the collaborator counts/suggestions derived from those tracks. Shared by the search
+// page, server routes and exports. Every operation returns a new graph and never mutates its input.
+import type { SpotifyTrack } from './spotifyTypes';
+import { canonicalizeTracks, remixerIds } from './trackVersions';
+
+export interface GraphArtist {
+  id: string;
+  name: string;
+  images?: { url: string }[];
+  popularity?: number;
+}
+
+export interface CollaborationGraph {
+  artists: GraphArtist[]; // Artists explicitly added to the graph, in insertion order
+  songs: SpotifyTrack[];  // Tracks crediting at least one graphed artist, one version per recording
+}
+
+// A collaborator that is NOT yet in the graph, with the number of graph tracks they appear on
+export interface CollaboratorCount {
+  name: string;
+  count: number;
+  remixCount?: number; // Tracks they only remixed, when counted separately (see CollaboratorCountOptions)
+  images?: { url: string }[];
+}
+
+export interface CollaboratorCountOptions {
+  separateRemixers?: boolean; // Count remixer credits in `remixCount` instead of `count`
+}
+
+export type CollaboratorCounts = { [artistId: string]: CollaboratorCount };
+
+export interface CollaborationEdge {
+  source: string; // Artist IDs, with source < target
+  target: string;
+  weight: number; // Number of tracks both artists appear on
+  trackIds: string[]; // The shared tracks
+}
+
+export const DEFAULT_SUGGESTION_LIMIT = 10;
+
+export function createGraph(artists: GraphArtist[] = [], songs: SpotifyTrack[] = []): CollaborationGraph {
+  return ingestTracks({ artists: dedupeArtists(artists), songs: [] }, songs);
+}
+
+export function hasArtist(graph: CollaborationGraph, artistId: string): boolean {
+  return graph.artists.some(artist => artist.id === artistId);
+}
+
+// Adds an artist to the graph (no-op if already present). Their tracks are added separately via ingestTracks.
+export function addArtist(graph: CollaborationGraph, artist: GraphArtist): CollaborationGraph {
+  if (hasArtist(graph, artist.id)) return graph;
+  return { ...graph, artists: [...graph.artists, artist] };
+}
+
+// Removes an artist and prunes the tracks that no longer credit any remaining graphed artist
+export function removeArtist(graph: CollaborationGraph, artistId: string): CollaborationGraph {
+  if (!hasArtist(graph, artistId)) return graph;
+  const artists = graph.artists.filter(artist => artist.id !== artistId);
+  const remainingIds = new Set(artists.map(artist => artist.id));
+  const songs = graph.songs.filter(song => song.artists.some(artist => remainingIds.has(artist.id)));
+  return { artists, songs };
+}
+
+// Merges tracks into the graph. Releases of the same recording (by ISRC, see lib/trackVersions.ts)
+// collapse into the preferred version, and tracks that don't credit any graphed artist are ignored.
+export function ingestTracks(graph: CollaborationGraph, tracks: SpotifyTrack[]): CollaborationGraph {
+  const graphArtistIds = new Set(graph.artists.map(artist => artist.id));
+  const songs = [...graph.songs, ...tracks].filter(song => song.artists.some(artist => graphArtistIds.has(artist.id)));
+  return { ...graph, songs: canonicalizeTracks(songs) };
+}
+
+// Counts, for every artist not in the graph, how many graph tracks they appear on
+export function computeCollaboratorCounts(
+  graph: CollaborationGraph,
+  options: CollaboratorCountOptions = {}
+): CollaboratorCounts {
+  const graphArtistIds = new Set(graph.artists.map(artist => artist.id));
+  const counts: CollaboratorCounts = {};
+
+  graph.songs.forEach(song => {
+    // Only tracks with a graphed artist count, and only their artists outside the graph
+    if (!song.artists.some(artist => graphArtistIds.has(artist.id))) return;
+    const collaboratorsOnSong = song.artists.filter(artist => !graphArtistIds.has(artist.id));
+    const remixers = options.separateRemixers ? remixerIds(song) : new Set<string>();
+
+    new Map(collaboratorsOnSong.map(artist => [artist.id, artist])).forEach(collaborator => {
+      if (!counts[collaborator.id]) {
+        // Smallest album image stands in for the collaborator's picture
+        const image = song.album.images?.length ? song.album.images[song.album.images.length - 1] : undefined;
+        counts[collaborator.id] = { name: collaborator.name, count: 0, images: image ? [image] : [] };
+      }
+      if (remixers.has(collaborator.id)) {
+        counts[collaborator.id].remixCount = (counts[collaborator.id].remixCount || 0) + 1;
+      } else {
+        counts[collaborator.id].count++;
+      }
+    });
+  });
+
+  return counts;
+}
+
+// Top collaborators not yet in the graph, most shared tracks first (remix-only credits aren't suggested)
+export function getSuggestions(
+  counts: CollaboratorCounts,
+  limit: number = DEFAULT_SUGGESTION_LIMIT
+): (GraphArtist & { count: number })[] {
+  return Object.entries(counts)
+    .filter(([, collaborator]) => collaborator.count > 0)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, limit)
+    .map(([id, collaborator]) => ({
+      id,
+      name: collaborator.name,
+      images: collaborator.images?.length ? collaborator.images : undefined,
+      count: collaborator.count,
+    }));
+}
+
+// Weighted artist-artist edges from shared tracks. When `artistIds` is given, only edges
+// between those artists are returned.
+export function computeEdges(songs: Pick<SpotifyTrack, 'id' | 'artists'>[], artistIds?: Set<string>): CollaborationEdge[] {
+  const edges = new Map<string, CollaborationEdge>();
+  songs.forEach(song => {
+    const onSong = Array.from(new Set(song.artists.map(artist => artist.id)))
+      .filter(id => !artistIds || artistIds.has(id))
+      .sort();
+    for (let i = 0; i < onSong.length; i++) {
+      for (let j = i + 1; j < onSong.length; j++) {
+        const key = `${onSong[i]}|${onSong[j]}`;
+        const edge = edges.get(key) || { source: onSong[i], target: onSong[j], weight: 0, trackIds: [] };
+        edge.weight++;
+        edge.trackIds.push(song.id);
+        edges.set(key, edge);
+      }
+    }
+  });
+  return Array.from(edges.values());
+}
+
+// Structural check for a graph received from outside (request bodies, imported files): artists
+// with an ID and name, and tracks with an ID, URI, album and credited artists
+export function isGraphDefinition(value: unknown): value is CollaborationGraph {
+  if (!value || typeof value !== 'object') return false;
+  const { artists, songs } = value as Partial<CollaborationGraph>;
+  const isArtistRef = (artist: unknown) => !!artist && typeof artist === 'object'
+    && typeof (artist as GraphArtist).id === 'string' && typeof (artist as GraphArtist).name === 'string';
+  return Array.isArray(artists) && artists.every(isArtistRef)
+    && Array.isArray(songs) && songs.every(song => !!song && typeof song === 'object'
+      && typeof song.id === 'string' && typeof song.uri === 'string'
+      && !!song.album && typeof song.album === 'object'
+      && Array.isArray(song.artists) && song.artists.every(isArtistRef));
+}
+
+function dedupeArtists(artists: GraphArtist[]): GraphArtist[] {
+  return Array.from(new Map(artists.map(artist => [artist.id, artist])).values());
+}
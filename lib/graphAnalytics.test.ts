@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { createGraph } from './graph';
+import { analyzeGraph, analyzeNetwork, communityColor, communityColorMap, COMMUNITY_COLORS } from './graphAnalytics';
+import type { SpotifyTrack } from './spotifyTypes';
+
+const node = (id: string) => ({ id, name: id.toUpperCase() });
+const edge = (source: string, target: string, weight = 1) => ({ source, target, weight });
+
+// Two triangles joined by c-d, plus an artist without collaborations
+const nodes = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map(node);
+const edges = [edge('a', 'b'), edge('b', 'c'), edge('a', 'c', 2), edge('c', 'd'), edge('d', 'e'), edge('e', 'f'), edge('d', 'f')];
+
+describe('analyzeNetwork', () => {
+  const analytics = analyzeNetwork(nodes, edges);
+  const metrics = (id: string) => analytics.artists.find(artist => artist.id === id)!;
+
+  it('summarizes the network', () => {
+    expect(analytics).toMatchObject({ nodeCount: 7, edgeCount: 7 });
+    expect(analytics.density).toBeCloseTo(7 / 21);
+  });
+
+  it('computes degree and weighted degree', () => {
+    expect(metrics('a')).toMatchObject({ degree: 2, weightedDegree: 3 });
+    expect(metrics('c')).toMatchObject({ degree: 3, weightedDegree: 4 });
+    expect(metrics('g')).toMatchObject({ degree: 0, weightedDegree: 0 });
+  });
+
+  it('computes normalized betweenness', () => {
+    // c and d each sit on the shortest paths between {a, b, c|d} and {d|c, e, f}: 6 of 15 pairs
+    expect(metrics('c').betweenness).toBeCloseTo(0.4);
+    expect(metrics('d').betweenness).toBeCloseTo(0.4);
+    expect(metrics('a').betweenness).toBe(0);
+  });
+
+  it('computes eigenvector centrality scaled to the most central artist', () => {
+    expect(metrics('c').eigenvector).toBe(1);
+    expect(metrics('a').eigenvector).toBeGreaterThan(metrics('b').eigenvector); // Heavier tie to c
+    expect(metrics('e').eigenvector).toBeCloseTo(metrics('f').eigenvector);
+    expect(metrics('g').eigenvector).toBeCloseTo(0);
+  });
+
+  it('finds connected components, largest first', () => {
+    expect(analytics.components).toEqual([['a', 'b', 'c', 'd', 'e', 'f'], ['g']]);
+    expect(metrics('g').component).toBe(1);
+  });
+
+  it('splits the triangles into communities', () => {
+    expect(analytics.communities).toEqual([['a', 'b', 'c'], ['d', 'e', 'f'], ['g']]);
+    expect(metrics('a').community).toBe(metrics('b').community);
+    expect(metrics('c').community).not.toBe(metrics('d').community);
+    expect(analytics.modularity).toBeCloseTo(0.3671875);
+  });
+
+  it('reports the artists linking the communities as bridges', () => {
+    expect(analytics.bridges).toEqual([
+      { id: 'c', name: 'C', articulation: true, communities: 2 },
+      { id: 'd', name: 'D', articulation: true, communities: 2 },
+    ]);
+  });
+
+  it('handles networks without collaborations', () => {
+    expect(analyzeNetwork([node('x')], [])).toMatchObject({
+      nodeCount: 1,
+      edgeCount: 0,
+      density: 0,
+      components: [['x']],
+      communities: [['x']],
+      modularity: 0,
+      bridges: [],
+    });
+  });
+
+  it('ignores self-loops and edges to unknown artists', () => {
+    expect(analyzeNetwork([node('x'), node('y')], [edge('x', 'x'), edge('x', 'z'), edge('x', 'y')]).edgeCount).toBe(1);
+  });
+
+  // A recursive DFS overflows the call stack on chains this long
+  it('handles long collaboration chains without overflowing the stack', () => {
+    const length = 3000;
+    const chain = Array.from({ length }, (_, i) => node(`n${i}`));
+    const links = chain.slice(1).map((artist, i) => edge(chain[i].id, artist.id));
+    const result = analyzeNetwork(chain, links);
+    expect(result.components).toHaveLength(1);
+    // Every artist but the two ends holds the chain together
+    expect(result.bridges.filter(bridge => bridge.articulation)).toHaveLength(length - 2);
+  }, 30_000);
+});
+
+describe('analyzeGraph', () => {
+  it('analyzes graphed artists and their collaborators', () => {
+    const song = (id: string, artistIds: string[]): SpotifyTrack => ({
+      id,
+      name: id,
+      artists: artistIds.map(artistId => ({ id: artistId, name: artistId })),
+      album: { name: id },
+      uri: `spotify:track:${id}`,
+      external_ids: { isrc: id },
+    });
+    const graph = createGraph([{ id: 'nova', name: 'Nova' }], [song('1', ['nova', 'orrin']), song('2', ['nova', 'solenne'])]);
+    const analytics = analyzeGraph(graph);
+    expect(analytics.artists.map(artist => [artist.id, artist.graphed, artist.degree])).toEqual([
+      ['nova', true, 2],
+      ['orrin', false, 1],
+      ['solenne', false, 1],
+    ]);
+    expect(analytics.bridges.map(bridge => bridge.id)).toEqual(['nova']);
+  });
+});
+
+describe('community colors', () => {
+  it('colors the largest communities and grays out the rest', () => {
+    expect(communityColor(0)).toBe(COMMUNITY_COLORS[0]);
+    expect(communityColor(COMMUNITY_COLORS.length)).toBe('#4b5563');
+    expect(communityColorMap(analyzeNetwork(nodes, edges))).toMatchObject({ a: COMMUNITY_COLORS[0], d: COMMUNITY_COLORS[1] });
+  });
+});
@@ -0,0 +1,373 @@
+// lib/graphAnalytics.ts
+// Structural analysis of a collaboration graph: degree and weighted degree, betweenness and
+// eigenvector centrality, connected components, communities (Louvain modularity optimization)
+// and bridge artists. Nodes and edges are the same as in exports (graphed artists plus their
+// collaborators, weighted by shared tracks). Pure and deterministic, so it runs on the search
+// page as well as in /api/graph-analytics.
+import type { CollaborationEdge, CollaborationGraph, CollaboratorCounts } from './graph';
+import { buildGraphExport } from './graphExport';
+
+export interface ArtistMetrics {
+  id: string;
+  name: string;
+  graphed: boolean;       // In the graph (as opposed to a collaborator)
+  degree: number;         // Distinct collaborators
+  weightedDegree: number; // Shared tracks, summed over collaborators
+  betweenness: number;    // Share of shortest paths between other artists that pass through this one (0-1)
+  eigenvector: number;    // Connected to well-connected artists (0-1, the most central is 1)
+  component: number;      // Index into GraphAnalytics.components
+  community: number;      // Index into GraphAnalytics.communities
+}
+
+export interface BridgeArtist {
+  id: string;
+  name: string;
+  articulation: boolean; // Removing the artist disconnects part of the network
+  communities: number;   // Communities among the artist and their collaborators
+}
+
+export interface GraphAnalytics {
+  nodeCount: number;
+  edgeCount: number;
+  density: number;          // Share of possible artist pairs that collaborated
+  artists: ArtistMetrics[]; // Graphed artists first, then collaborators
+  components: string[][];   // Artist IDs per connected component, largest first
+  communities: string[][];  // Artist IDs per community, largest first
+  modularity: number;       // Quality of the community split (-0.5 to 1; higher is more clustered)
+  bridges: BridgeArtist[];  // Most between first
+}
+
+interface AnalyticsNode {
+  id: string;
+  name: string;
+  graphed?: boolean;
+}
+
+// Weighted undirected adjacency by node index
+type Adjacency = Map<number, number>[];
+
+// Analyzes the graph's artist network; `counts` defaults to the graph's own collaborator counts
+export function analyzeGraph(graph: CollaborationGraph, counts?: CollaboratorCounts): GraphAnalytics {
+  const { nodes, edges } = buildGraphExport(graph, counts);
+  return analyzeNetwork(nodes.map(node => ({ id: node.id, name: node.name, graphed: node.type === 'graphed' })), edges);
+}
+
+export function analyzeNetwork(nodes: AnalyticsNode[], edges: Pick<CollaborationEdge, 'source' | 'target' | 'weight'>[]): GraphAnalytics {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const adjacency: Adjacency = nodes.map(() => new Map());
+  edges.forEach(edge => {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) return;
+    adjacency[a].set(b, (adjacency[a].get(b) || 0) + edge.weight);
+    adjacency[b].set(a, (adjacency[b].get(a) || 0) + edge.weight);
+  });
+
+  const n = nodes.length;
+  const edgeCount = adjacency.reduce((sum, neighbors) => sum + neighbors.size, 0) / 2;
+  const betweenness = computeBetweenness(adjacency);
+  const eigenvector = computeEigenvector(adjacency);
+  const componentOf = computeComponents(adjacency);
+  const { communityOf, modularity } = detectCommunities(adjacency);
+  const articulation = findArticulationPoints(adjacency);
+
+  const groups = (assignment: number[]) => {
+    const members = new Map<number, number[]>();
+    assignment.forEach((group, node) => members.set(group, [...(members.get(group) || []), node]));
+    // Largest first; ties keep the order of their first member
+    return Array.from(members.values()).sort((a, b) => b.length - a.length || a[0] - b[0]);
+  };
+  const components = groups(componentOf);
+  const communities = groups(communityOf);
+  const componentIndex = new Map(components.flatMap((members, i) => members.map(node => [node, i] as const)));
+  const communityIndex = new Map(communities.flatMap((members, i) => members.map(node => [node, i] as const)));
+
+  const artists: ArtistMetrics[] = nodes.map((node, i) => ({
+    id: node.id,
+    name: node.name,
+    graphed: !!node.graphed,
+    degree: adjacency[i].size,
+    weightedDegree: Array.from(adjacency[i].values()).reduce((sum, weight) => sum + weight, 0),
+    betweenness: betweenness[i],
+    eigenvector: eigenvector[i],
+    component: componentIndex.get(i)!,
+    community: communityIndex.get(i)!,
+  }));
+
+  const bridges: BridgeArtist[] = artists
+    .map((artist, i) => ({
+      artist,
+      articulation: articulation.has(i),
+      communities: new Set([i, ...adjacency[i].keys()].map(node => communityIndex.get(node))).size,
+    }))
+    .filter(({ articulation: isArticulation, communities: reached }) => isArticulation || reached > 1)
+    .sort((a, b) => b.artist.betweenness - a.artist.betweenness || b.communities - a.communities)
+    .map(({ artist, articulation: isArticulation, communities: reached }) => ({
+      id: artist.id,
+      name: artist.name,
+      articulation: isArticulation,
+      communities: reached,
+    }));
+
+  return {
+    nodeCount: n,
+    edgeCount,
+    density: n > 1 ? (2 * edgeCount) / (n * (n - 1)) : 0,
+    artists,
+    components: components.map(members => members.map(node => nodes[node].id)),
+    communities: communities.map(members => members.map(node => nodes[node].id)),
+    modularity,
+    bridges,
+  };
+}
+
+// --- Centrality ---
+
+// Brandes' algorithm over unweighted hops (one collaboration is one step, however many tracks),
+// normalized by the number of pairs of other artists
+function computeBetweenness(adjacency: Adjacency): number[] {
+  const n = adjacency.length;
+  const scores = new Array(n).fill(0);
+  // Scratch space shared by all sources; after each search only the nodes it reached are reset
+  const predecessors: number[][] = adjacency.map(() => []);
+  const paths = new Array(n).fill(0);
+  const distance = new Array(n).fill(-1);
+  const dependency = new Array(n).fill(0);
+  const order: number[] = []; // Nodes in the order they were reached; walked backwards to sum dependencies
+  for (let source = 0; source < n; source++) {
+    paths[source] = 1;
+    distance[source] = 0;
+    order.push(source);
+    for (let head = 0; head < order.length; head++) {
+      const node = order[head];
+      adjacency[node].forEach((_, neighbor) => {
+        if (distance[neighbor] < 0) {
+          distance[neighbor] = distance[node] + 1;
+          order.push(neighbor);
+        }
+        if (distance[neighbor] === distance[node] + 1) {
+          paths[neighbor] += paths[node];
+          predecessors[neighbor].push(node);
+        }
+      });
+    }
+    for (let i = order.length - 1; i >= 0; i--) {
+      const node = order[i];
+      predecessors[node].forEach(predecessor => {
+        dependency[predecessor] += (paths[predecessor] / paths[node]) * (1 + dependency[node]);
+      });
+      if (node !== source) scores[node] += dependency[node];
+    }
+    order.forEach(node => {
+      predecessors[node].length = 0;
+      paths[node] = 0;
+      distance[node] = -1;
+      dependency[node] = 0;
+    });
+    order.length = 0;
+  }
+  // Each pair was counted from both ends
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  return scores.map(score => (pairs > 0 ? score / 2 / pairs : 0));
+}
+
+// Power iteration on the weighted adjacency matrix, shifted by the identity so it converges on
+// bipartite (e.g. star-shaped) networks too
+function computeEigenvector(adjacency: Adjacency, iterations = 200, tolerance = 1e-9): number[] {
+  if (adjacency.every(neighbors => neighbors.size === 0)) return adjacency.map(() => 0);
+  let scores = adjacency.map(() => 1);
+  for (let i = 0; i < iterations; i++) {
+    const next = adjacency.map((neighbors, node) =>
+      scores[node] + Array.from(neighbors).reduce((sum, [neighbor, weight]) => sum + weight * scores[neighbor], 0));
+    const max = next.reduce((largest, value) => Math.max(largest, value), 0);
+    const normalized = next.map(value => value / max);
+    const change = normalized.reduce((sum, value, node) => sum + Math.abs(value - scores[node]), 0);
+    scores = normalized;
+    if (change < tolerance) break;
+  }
+  return scores;
+}
+
+// --- Structure ---
+
+function computeComponents(adjacency: Adjacency): number[] {
+  const componentOf = new Array(adjacency.length).fill(-1);
+  let component = 0;
+  adjacency.forEach((_, start) => {
+    if (componentOf[start] >= 0) return;
+    componentOf[start] = component;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      adjacency[queue[head]].forEach((__, neighbor) => {
+        if (componentOf[neighbor] < 0) {
+          componentOf[neighbor] = component;
+          queue.push(neighbor);
+        }
+      });
+    }
+    component++;
+  });
+  return componentOf;
+}
+
+// Artists whose removal splits their component (Tarjan's low-link DFS). The DFS keeps its own
+// stack, so long collaboration chains can't overflow the call stack.
+function findArticulationPoints(adjacency: Adjacency): Set<number> {
+  const discovered = new Array(adjacency.length).fill(-1);
+  const low = new Array(adjacency.length).fill(0);
+  const points = new Set<number>();
+  let time = 0;
+
+  adjacency.forEach((_, root) => {
+    if (discovered[root] >= 0) return;
+    discovered[root] = low[root] = time++;
+    let rootChildren = 0;
+    const stack = [{ node: root, parent: -1, neighbors: Array.from(adjacency[root].keys()), next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (discovered[neighbor] < 0) {
+          if (frame.node === root) rootChildren++;
+          discovered[neighbor] = low[neighbor] = time++;
+          stack.push({ node: neighbor, parent: frame.node, neighbors: Array.from(adjacency[neighbor].keys()), next: 0 });
+        } else if (neighbor !== frame.parent) {
+          low[frame.node] = Math.min(low[frame.node], discovered[neighbor]);
+        }
+        continue;
+      }
+      // All neighbors done: report back to the parent
+      stack.pop();
+      const parent = frame.parent;
+      if (parent < 0) continue;
+      low[parent] = Math.min(low[parent], low[frame.node]);
+      if (parent !== root && low[frame.node] >= discovered[parent]) points.add(parent);
+    }
+    if (rootChildren > 1) points.add(root);
+  });
+  return points;
+}
+
+// --- Communities ---
+
+// Louvain method: repeatedly move each node to the neighboring community with the best
+// modularity gain, then merge communities into single nodes, until nothing moves. Nodes are
+// visited in index order, so results are deterministic.
+function detectCommunities(adjacency: Adjacency): { communityOf: number[]; modularity: number } {
+  const n = adjacency.length;
+  let communityOf = adjacency.map((_, node) => node);
+  const totalWeight = adjacency.reduce((sum, neighbors) => sum + Array.from(neighbors.values()).reduce((s, w) => s + w, 0), 0) / 2;
+  if (totalWeight === 0) return { communityOf, modularity: 0 };
+
+  // Current level: adjacency between super-nodes plus each one's internal weight
+  let level = { adjacency, selfWeight: new Array(n).fill(0) as number[] };
+  for (;;) {
+    const { assignment, moved } = moveNodes(level.adjacency, level.selfWeight, totalWeight);
+    if (!moved) break;
+    const renumbered = renumber(assignment);
+    communityOf = communityOf.map(superNode => renumbered[superNode]);
+    level = aggregate(level.adjacency, level.selfWeight, renumbered);
+  }
+  return { communityOf, modularity: modularity(adjacency, communityOf, totalWeight) };
+}
+
+function moveNodes(adjacency: Adjacency, selfWeight: number[], totalWeight: number): { assignment: number[]; moved: boolean } {
+  const m2 = 2 * totalWeight;
+  const degree = adjacency.map((neighbors, node) =>
+    Array.from(neighbors.values()).reduce((sum, weight) => sum + weight, 0) + 2 * selfWeight[node]);
+  const assignment = adjacency.map((_, node) => node);
+  const communityTotal = [...degree];
+  let moved = false;
+
+  for (let pass = 0; pass < 100; pass++) {
+    let movedThisPass = false;
+    adjacency.forEach((neighbors, node) => {
+      const current = assignment[node];
+      const linksTo = new Map<number, number>();
+      neighbors.forEach((weight, neighbor) => {
+        linksTo.set(assignment[neighbor], (linksTo.get(assignment[neighbor]) || 0) + weight);
+      });
+      communityTotal[current] -= degree[node];
+      const gain = (community: number) => (linksTo.get(community) || 0) - (communityTotal[community] * degree[node]) / m2;
+      let best = current;
+      let bestGain = gain(current);
+      linksTo.forEach((_, community) => {
+        const candidate = gain(community);
+        if (candidate > bestGain + 1e-12 || (Math.abs(candidate - bestGain) <= 1e-12 && community < best && candidate > 0)) {
+          best = community;
+          bestGain = candidate;
+        }
+      });
+      communityTotal[best] += degree[node];
+      if (best !== current) {
+        assignment[node] = best;
+        movedThisPass = true;
+      }
+    });
+    if (!movedThisPass) break;
+    moved = true;
+  }
+  return { assignment, moved };
+}
+
+// Maps community labels to 0..k-1 in order of first appearance
+function renumber(assignment: number[]): number[] {
+  const labels = new Map<number, number>();
+  return assignment.map(label => {
+    if (!labels.has(label)) labels.set(label, labels.size);
+    return labels.get(label)!;
+  });
+}
+
+function aggregate(adjacency: Adjacency, selfWeight: number[], assignment: number[]): { adjacency: Adjacency; selfWeight: number[] } {
+  const count = assignment.reduce((largest, label) => Math.max(largest, label), -1) + 1;
+  const merged: Adjacency = Array.from({ length: count }, () => new Map());
+  const mergedSelf = new Array(count).fill(0);
+  adjacency.forEach((neighbors, node) => {
+    const community = assignment[node];
+    mergedSelf[community] += selfWeight[node];
+    neighbors.forEach((weight, neighbor) => {
+      if (neighbor < node) return; // Each edge once
+      const other = assignment[neighbor];
+      if (other === community) {
+        mergedSelf[community] += weight;
+      } else {
+        merged[community].set(other, (merged[community].get(other) || 0) + weight);
+        merged[other].set(community, (merged[other].get(community) || 0) + weight);
+      }
+    });
+  });
+  return { adjacency: merged, selfWeight: mergedSelf };
+}
+
+// Newman modularity of a split of the original network
+function modularity(adjacency: Adjacency, communityOf: number[], totalWeight: number): number {
+  const internal = new Map<number, number>();
+  const total = new Map<number, number>();
+  adjacency.forEach((neighbors, node) => {
+    const community = communityOf[node];
+    neighbors.forEach((weight, neighbor) => {
+      total.set(community, (total.get(community) || 0) + weight);
+      if (communityOf[neighbor] === community) internal.set(community, (internal.get(community) || 0) + weight / 2);
+    });
+  });
+  let q = 0;
+  total.forEach((degreeSum, community) => {
+    q += (internal.get(community) || 0) / totalWeight - (degreeSum / (2 * totalWeight)) ** 2;
+  });
+  return q;
+}
+
+// --- Display ---
+
+// Distinct fills for the largest communities; smaller ones share a neutral gray
+export const COMMUNITY_COLORS = ['#16a34a', '#2563eb', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d'];
+
+export function communityColor(community: number): string {
+  return COMMUNITY_COLORS[community] ?? '#4b5563';
+}
+
+// Fill per artist ID, for coloring a visualization by community
+export function communityColorMap(analytics: GraphAnalytics): Record<string, string> {
+  return Object.fromEntries(analytics.artists.map(artist => [artist.id, communityColor(artist.community)]));
+}
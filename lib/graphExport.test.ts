@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { computeCollaboratorCounts, createGraph, type GraphArtist } from './graph';
+import {
+  buildGraphExport,
+  graphExportFileName,
+  GraphImportError,
+  isGraphExportFormat,
+  parseGraphExport,
+  serializeGraphExport,
+  type GraphExportDocument,
+} from './graphExport';
+import type { SpotifyTrack } from './spotifyTypes';
+
+const nova: GraphArtist = { id: 'nova', name: 'Nova Vale', popularity: 72 };
+const orrin: GraphArtist = { id: 'orrin', name: 'DJ "Orrin" & Co, <Ltd>' };
+const solenne: GraphArtist = { id: 'solenne', name: 'Solenne' };
+
+function track(id: string, artists: GraphArtist[], name = `Track ${id}`): SpotifyTrack {
+  return {
+    id,
+    name,
+    artists: artists.map(({ id: artistId, name: artistName }) => ({ id: artistId, name: artistName })),
+    album: { name: `Album ${id}` },
+    uri: `spotify:track:${id}`,
+    external_ids: { isrc: `ISRC${id}` },
+  };
+}
+
+const graph = createGraph([nova], [track('1', [nova, orrin]), track('2', [nova, orrin, solenne]), track('3', [nova])]);
+
+describe('buildGraphExport', () => {
+  it('exports graphed artists and collaborators with their track counts', () => {
+    const { nodes, edges, tracks } = buildGraphExport(graph);
+    expect(nodes).toEqual([
+      { id: 'nova', name: 'Nova Vale', type: 'graphed', trackCount: 3, popularity: 72 },
+      { id: 'orrin', name: orrin.name, type: 'collaborator', trackCount: 2 },
+      { id: 'solenne', name: 'Solenne', type: 'collaborator', trackCount: 1 },
+    ]);
+    expect(edges.map(edge => [edge.source, edge.target, edge.weight])).toEqual([
+      ['nova', 'orrin', 2],
+      ['nova', 'solenne', 1],
+      ['orrin', 'solenne', 1],
+    ]);
+    expect(tracks).toBe(graph.songs);
+  });
+
+  it('uses the counts it is given', () => {
+    const remixGraph = createGraph([nova], [track('1', [nova, orrin], `Glass - ${orrin.name} Remix`)]);
+    const counts = computeCollaboratorCounts(remixGraph, { separateRemixers: true });
+    expect(buildGraphExport(remixGraph, counts).nodes[1]).toMatchObject({ trackCount: 0, remixCount: 1 });
+  });
+});
+
+describe('serializeGraphExport', () => {
+  it('writes a versioned JSON document', () => {
+    const document: GraphExportDocument = JSON.parse(serializeGraphExport(graph, 'json'));
+    expect(document.version).toBe(1);
+    expect(document.graphedArtists).toEqual([nova]);
+    expect(document.nodes).toHaveLength(3);
+    expect(document.tracks.map(song => song.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('writes GraphML with escaped values', () => {
+    const graphMl = serializeGraphExport(graph, 'graphml');
+    expect(graphMl).toContain('<graph id="collaborations" edgedefault="undirected">');
+    expect(graphMl).toContain('<data key="name">DJ &quot;Orrin&quot; &amp; Co, &lt;Ltd&gt;</data>');
+    expect(graphMl).toContain('<edge id="e0" source="nova" target="orrin"><data key="weight">2</data><data key="trackIds">1;2</data></edge>');
+  });
+
+  it('writes GEXF', () => {
+    const gexf = serializeGraphExport(graph, 'gexf');
+    expect(gexf).toContain('<gexf xmlns="http://gexf.net/1.3" version="1.3">');
+    expect(gexf).toContain('<node id="solenne" label="Solenne">');
+    expect(gexf).toContain('<edge id="0" source="nova" target="orrin" weight="2">');
+  });
+
+  it('writes DOT with quoted labels', () => {
+    const dot = serializeGraphExport(graph, 'dot');
+    expect(dot).toContain('"nova" [label="Nova Vale", type=graphed, trackCount=3, shape=box, style=filled];');
+    expect(dot).toContain('[label="DJ \\"Orrin\\" & Co, <Ltd>"');
+    expect(dot).toContain('"nova" -- "orrin" [weight=2, penwidth=2, label=2];');
+  });
+
+  it('writes RFC 4180 CSV tables', () => {
+    expect(serializeGraphExport(graph, 'nodes_csv').split('\r\n')).toEqual([
+      'id,name,type,track_count,remix_count,popularity',
+      'nova,Nova Vale,graphed,3,0,72',
+      'orrin,"DJ ""Orrin"" & Co, <Ltd>",collaborator,2,0,',
+      'solenne,Solenne,collaborator,1,0,',
+      '',
+    ]);
+    expect(serializeGraphExport(graph, 'edges_csv').split('\r\n')[1]).toBe('nova,orrin,Nova Vale,"DJ ""Orrin"" & Co, <Ltd>",2,1;2');
+  });
+});
+
+describe('graphExportFileName', () => {
+  it('slugs the name and adds the format extension', () => {
+    expect(graphExportFileName('Nova Vale', 'graphml')).toBe('nova-vale-collaborations.graphml');
+    expect(graphExportFileName('Beyoncé!', 'nodes_csv')).toBe('beyonce-collaborations.nodes.csv');
+    expect(graphExportFileName('???', 'json')).toBe('graph-collaborations.json');
+  });
+});
+
+describe('isGraphExportFormat', () => {
+  it('accepts the known formats only', () => {
+    expect(isGraphExportFormat('gexf')).toBe(true);
+    expect(isGraphExportFormat('svg')).toBe(false);
+    expect(isGraphExportFormat(undefined)).toBe(false);
+  });
+});
+
+describe('parseGraphExport', () => {
+  it('rebuilds the graph from a JSON export', () => {
+    expect(parseGraphExport(serializeGraphExport(graph, 'json'))).toEqual(graph);
+  });
+
+  it.each([
+    ['not json', "The file isn't valid JSON."],
+    ['[]', "The file isn't a graph export (no version found). Export a graph as JSON first."],
+    ['{"version":"1"}', 'The file has an invalid export version ("1").'],
+    ['{"version":2}', 'The file was exported by a newer version of the app (format 2); this version reads format 1.'],
+    ['{"version":1,"graphedArtists":[],"tracks":[]}', 'The file has no graphed artists.'],
+    ['{"version":1,"graphedArtists":[{"id":"nova"}],"tracks":[]}', 'The file is damaged: some artists or tracks are missing their ID, name, URI or album.'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseGraphExport(text)).toThrow(new GraphImportError(message));
+  });
+});
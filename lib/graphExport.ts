@@ -0,0 +1,243 @@
+// lib/graphExport.ts
+// Serializes a collaboration graph for analysis tools: JSON, GraphML, GEXF (Gephi), Graphviz
+// DOT, and node/edge CSV tables. Nodes are the graphed artists plus their collaborators; edges
+// link every pair of artists credited on the same track. Used by the search page's download
+// button and by /api/graph-export. JSON exports can be imported back with parseGraphExport.
+import {
+  computeCollaboratorCounts,
+  computeEdges,
+  createGraph,
+  isGraphDefinition,
+  type CollaborationGraph,
+  type CollaborationEdge,
+  type CollaboratorCounts,
+} from './graph';
+import type { SpotifyTrack } from './spotifyTypes';
+
+export type GraphExportFormat = 'json' | 'graphml' | 'gexf' | 'dot' | 'nodes_csv' | 'edges_csv';
+
+export const GRAPH_EXPORT_FORMATS: { id: GraphExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml' },
+  { id: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf', mimeType: 'application/gexf+xml' },
+  { id: 'dot', label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  { id: 'nodes_csv', label: 'Nodes CSV', extension: 'nodes.csv', mimeType: 'text/csv' },
+  { id: 'edges_csv', label: 'Edges CSV', extension: 'edges.csv', mimeType: 'text/csv' },
+];
+
+export function isGraphExportFormat(value: unknown): value is GraphExportFormat {
+  return GRAPH_EXPORT_FORMATS.some(format => format.id === value);
+}
+
+export const GRAPH_EXPORT_VERSION = 1;
+
+export interface GraphExportNode {
+  id: string;
+  name: string;
+  type: 'graphed' | 'collaborator';
+  trackCount: number;   // Graph tracks crediting the artist (collaborators: their collaboration count)
+  remixCount?: number;  // Collaborators' remix-only credits, when counted separately
+  popularity?: number;
+}
+
+export interface GraphExportData {
+  nodes: GraphExportNode[];
+  edges: CollaborationEdge[];
+  tracks: SpotifyTrack[];
+}
+
+// The JSON export; `graphedArtists` and `tracks` are enough to rebuild the graph
+export interface GraphExportDocument extends GraphExportData {
+  version: number;
+  exportedAt: string;
+  graphedArtists: CollaborationGraph['artists'];
+}
+
+// Collects the nodes, edges and tracks to export. `counts` defaults to the graph's own
+// collaborator counts; pass the ones shown on the page to export exactly what's displayed.
+export function buildGraphExport(graph: CollaborationGraph, counts: CollaboratorCounts = computeCollaboratorCounts(graph)): GraphExportData {
+  const nodes: GraphExportNode[] = [
+    ...graph.artists.map(artist => ({
+      id: artist.id,
+      name: artist.name,
+      type: 'graphed' as const,
+      trackCount: graph.songs.filter(song => song.artists.some(credit => credit.id === artist.id)).length,
+      ...(artist.popularity !== undefined ? { popularity: artist.popularity } : {}),
+    })),
+    ...Object.entries(counts).map(([id, collaborator]) => ({
+      id,
+      name: collaborator.name,
+      type: 'collaborator' as const,
+      trackCount: collaborator.count,
+      ...(collaborator.remixCount ? { remixCount: collaborator.remixCount } : {}),
+    })),
+  ];
+  const edges = computeEdges(graph.songs, new Set(nodes.map(node => node.id)));
+  return { nodes, edges, tracks: graph.songs };
+}
+
+export function serializeGraphExport(graph: CollaborationGraph, format: GraphExportFormat, counts?: CollaboratorCounts): string {
+  const data = buildGraphExport(graph, counts);
+  switch (format) {
+    case 'json':
+      return toJson(graph, data);
+    case 'graphml':
+      return toGraphMl(data);
+    case 'gexf':
+      return toGexf(data);
+    case 'dot':
+      return toDot(data);
+    case 'nodes_csv':
+      return toCsv(
+        ['id', 'name', 'type', 'track_count', 'remix_count', 'popularity'],
+        data.nodes.map(node => [node.id, node.name, node.type, node.trackCount, node.remixCount ?? 0, node.popularity ?? ''])
+      );
+    case 'edges_csv': {
+      const names = new Map(data.nodes.map(node => [node.id, node.name]));
+      return toCsv(
+        ['source', 'target', 'source_name', 'target_name', 'weight', 'track_ids'],
+        data.edges.map(edge => [edge.source, edge.target, names.get(edge.source), names.get(edge.target), edge.weight, edge.trackIds.join(';')])
+      );
+    }
+  }
+}
+
+// File name for a download, e.g. "mira-vale-collaborations.graphml"
+export function graphExportFileName(baseName: string, format: GraphExportFormat): string {
+  const slug = baseName.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'graph';
+  const extension = GRAPH_EXPORT_FORMATS.find(option => option.id === format)!.extension;
+  return `${slug}-collaborations.${extension}`;
+}
+
+// --- Import ---
+
+// Why a file couldn't be imported; the message is meant to be shown to the user
+export class GraphImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphImportError';
+  }
+}
+
+// Rebuilds the graph from a JSON export (its graphed artists and tracks; nodes and edges are
+// derived again). Throws GraphImportError for files that aren't a valid export of a supported version.
+export function parseGraphExport(text: string): CollaborationGraph {
+  let document: Partial<GraphExportDocument>;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new GraphImportError("The file isn't valid JSON.");
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document) || !('version' in document)) {
+    throw new GraphImportError("The file isn't a graph export (no version found). Export a graph as JSON first.");
+  }
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 1) {
+    throw new GraphImportError(`The file has an invalid export version (${JSON.stringify(document.version)}).`);
+  }
+  if (document.version > GRAPH_EXPORT_VERSION) {
+    throw new GraphImportError(`The file was exported by a newer version of the app (format ${document.version}); this version reads format ${GRAPH_EXPORT_VERSION}.`);
+  }
+  const definition = { artists: document.graphedArtists, songs: document.tracks };
+  if (!Array.isArray(definition.artists) || definition.artists.length === 0) {
+    throw new GraphImportError('The file has no graphed artists.');
+  }
+  if (!isGraphDefinition(definition)) {
+    throw new GraphImportError('The file is damaged: some artists or tracks are missing their ID, name, URI or album.');
+  }
+  return createGraph(definition.artists, definition.songs);
+}
+
+// --- Serializers ---
+
+function toJson(graph: CollaborationGraph, data: GraphExportData): string {
+  const document: GraphExportDocument = {
+    version: GRAPH_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    graphedArtists: graph.artists,
+    ...data,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toGraphMl({ nodes, edges }: GraphExportData): string {
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="trackCount" for="node" attr.name="trackCount" attr.type="int"/>',
+    '  <key id="remixCount" for="node" attr.name="remixCount" attr.type="int"/>',
+    '  <key id="popularity" for="node" attr.name="popularity" attr.type="int"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="trackIds" for="edge" attr.name="trackIds" attr.type="string"/>',
+    '  <graph id="collaborations" edgedefault="undirected">',
+    ...nodes.map(node => `    <node id="${escapeXml(node.id)}">${data('name', node.name)}${data('type', node.type)}${data('trackCount', node.trackCount)}${data('remixCount', node.remixCount)}${data('popularity', node.popularity)}</node>`),
+    ...edges.map((edge, index) => `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${data('weight', edge.weight)}${data('trackIds', edge.trackIds.join(';'))}</edge>`),
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+function toGexf({ nodes, edges }: GraphExportData): string {
+  const attvalue = (id: number, value: string | number | undefined) =>
+    value === undefined ? '' : `<attvalue for="${id}" value="${escapeXml(String(value))}"/>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <graph mode="static" defaultedgetype="undirected">',
+    '    <attributes class="node">',
+    '      <attribute id="0" title="type" type="string"/>',
+    '      <attribute id="1" title="trackCount" type="integer"/>',
+    '      <attribute id="2" title="remixCount" type="integer"/>',
+    '      <attribute id="3" title="popularity" type="integer"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="trackIds" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...nodes.map(node => `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}"><attvalues>${attvalue(0, node.type)}${attvalue(1, node.trackCount)}${attvalue(2, node.remixCount)}${attvalue(3, node.popularity)}</attvalues></node>`),
+    '    </nodes>',
+    '    <edges>',
+    ...edges.map((edge, index) => `      <edge id="${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.weight}"><attvalues>${attvalue(0, edge.trackIds.join(';'))}</attvalues></edge>`),
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    '',
+  ].join('\n');
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+// Graphed artists are drawn as filled boxes, collaborators as plain ellipses
+function toDot({ nodes, edges }: GraphExportData): string {
+  return [
+    'graph collaborations {',
+    ...nodes.map(node => `  ${quoteDot(node.id)} [label=${quoteDot(node.name)}, type=${node.type}, trackCount=${node.trackCount}${node.type === 'graphed' ? ', shape=box, style=filled' : ''}];`),
+    ...edges.map(edge => `  ${quoteDot(edge.source)} -- ${quoteDot(edge.target)} [weight=${edge.weight}, penwidth=${edge.weight}, label=${edge.weight}];`),
+    '}',
+    '',
+  ].join('\n');
+}
+
+// RFC 4180: fields containing commas, quotes or line breaks are quoted, quotes doubled
+function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  const field = (value: string | number | undefined) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map(row => row.map(field).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createHistory,
+  MAX_HISTORY_ENTRIES,
+  nextRedoLabel,
+  nextUndoLabel,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from './graphHistory';
+
+describe('graph history', () => {
+  // State 0, then "Add Orrin" (-> 1), then "Add Solenne" (-> 2)
+  const twoEdits = recordHistory(recordHistory(createHistory<number>(), 'Add Orrin', 0), 'Add Solenne', 1);
+
+  it('starts empty', () => {
+    const history = createHistory<number>();
+    expect(nextUndoLabel(history)).toBeNull();
+    expect(nextRedoLabel(history)).toBeNull();
+    expect(undoHistory(history, 0)).toBeNull();
+    expect(redoHistory(history, 0)).toBeNull();
+  });
+
+  it('records the state before each command', () => {
+    const history = twoEdits;
+    expect(history.past).toEqual([{ label: 'Add Orrin', snapshot: 0 }, { label: 'Add Solenne', snapshot: 1 }]);
+    expect(nextUndoLabel(history)).toBe('Add Solenne');
+  });
+
+  it('undoes to the earlier state and redoes to the later one', () => {
+    let history = twoEdits;
+
+    const undone = undoHistory(history, 2)!;
+    expect(undone.entry).toEqual({ label: 'Add Solenne', snapshot: 1 });
+    history = undone.history;
+    expect(nextUndoLabel(history)).toBe('Add Orrin');
+    expect(nextRedoLabel(history)).toBe('Add Solenne');
+
+    const undoneAgain = undoHistory(history, 1)!;
+    expect(undoneAgain.entry.snapshot).toBe(0);
+    history = undoneAgain.history;
+    expect(nextUndoLabel(history)).toBeNull();
+
+    const redone = redoHistory(history, 0)!;
+    expect(redone.entry).toEqual({ label: 'Add Orrin', snapshot: 1 });
+    history = redone.history;
+    expect(redoHistory(history, 1)!.entry).toEqual({ label: 'Add Solenne', snapshot: 2 });
+    expect(nextUndoLabel(history)).toBe('Add Orrin');
+  });
+
+  it('clears the redo entries after a new edit', () => {
+    let history = twoEdits;
+    history = undoHistory(history, 2)!.history;
+    expect(nextRedoLabel(history)).toBe('Add Solenne');
+
+    history = recordHistory(history, 'Remove Orrin', 1);
+    expect(history.future).toEqual([]);
+    expect(redoHistory(history, 3)).toBeNull();
+    expect(history.past.map(entry => entry.label)).toEqual(['Add Orrin', 'Remove Orrin']);
+  });
+
+  it('keeps only the most recent entries', () => {
+    let history = createHistory<number>();
+    for (let state = 0; state < MAX_HISTORY_ENTRIES + 5; state++) {
+      history = recordHistory(history, `Edit ${state}`, state);
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0]).toEqual({ label: 'Edit 5', snapshot: 5 });
+    expect(recordHistory(history, 'Edit', 0, 3).past.map(entry => entry.snapshot)).toEqual([MAX_HISTORY_ENTRIES + 3, MAX_HISTORY_ENTRIES + 4, 0]);
+  });
+
+  it("doesn't change the history it is given", () => {
+    const history = recordHistory(createHistory<number>(), 'Add Orrin', 0);
+    undoHistory(history, 1);
+    recordHistory(history, 'Add Solenne', 1);
+    expect(history).toEqual({ past: [{ label: 'Add Orrin', snapshot: 0 }], future: [] });
+  });
+});
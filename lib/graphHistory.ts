@@ -0,0 +1,56 @@
+// lib/graphHistory.ts
+// Undo/redo history for the search page's graph edits. Each entry keeps a snapshot of the
+// state before (undo) or after (redo) a labelled command, so undoing restores the earlier
+// songs and counts without fetching anything. Graphs are immutable, so snapshots share their
+// tracks with the live state and stay cheap.
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface HistoryEntry<T> {
+  label: string; // The command, e.g. "Remove Kestrel"
+  snapshot: T;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];   // Most recent last; each snapshot is the state before its command
+  future: HistoryEntry<T>[]; // Most recently undone last; each snapshot is the state after its command
+}
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Records that `label` is about to change `snapshot` (the current state). Clears the redo
+// entries and drops the oldest entries beyond `limit`.
+export function recordHistory<T>(history: History<T>, label: string, snapshot: T, limit: number = MAX_HISTORY_ENTRIES): History<T> {
+  return { past: [...history.past, { label, snapshot }].slice(-limit), future: [] };
+}
+
+// Steps back one command. `current` is kept so the command can be redone; returns null when
+// there is nothing to undo.
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; entry: HistoryEntry<T> } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, { label: entry.label, snapshot: current }] },
+    entry,
+  };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; entry: HistoryEntry<T> } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, { label: entry.label, snapshot: current }], future: history.future.slice(0, -1) },
+    entry,
+  };
+}
+
+// Label of the command undo (or redo) would revert (or re-apply), if any
+export function nextUndoLabel<T>(history: History<T>): string | null {
+  return history.past[history.past.length - 1]?.label ?? null;
+}
+
+export function nextRedoLabel<T>(history: History<T>): string | null {
+  return history.future[history.future.length - 1]?.label ?? null;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGraphUrlState, DEFAULT_GRAPH_URL_STATE, encodeGraphUrlState, MAX_URL_ARTISTS, type GraphUrlState } from './graphUrlState';
+
+describe('encodeGraphUrlState', () => {
+  it('leaves defaults out of the URL', () => {
+    expect(encodeGraphUrlState(DEFAULT_GRAPH_URL_STATE)).toBe('');
+    expect(encodeGraphUrlState({ ...DEFAULT_GRAPH_URL_STATE, artistIds: ['nova', 'orrin'] })).toBe('artists=nova,orrin');
+  });
+
+  it('writes every setting that differs from its default', () => {
+    const state: GraphUrlState = {
+      artistIds: ['nova'],
+      strategy: 'discography',
+      versions: ['original', 'live'],
+      collaborationsOnly: true,
+      separateRemixers: true,
+      order: 'release_date',
+    };
+    expect(encodeGraphUrlState(state)).toBe('artists=nova&strategy=discography&versions=original,live&collabs=1&remixers=separate&order=release_date');
+    expect(decodeGraphUrlState(new URLSearchParams(encodeGraphUrlState(state)))).toEqual(state);
+  });
+
+  it(`keeps at most ${MAX_URL_ARTISTS} artists`, () => {
+    const artistIds = Array.from({ length: MAX_URL_ARTISTS + 5 }, (_, i) => `artist${i}`);
+    const encoded = encodeGraphUrlState({ ...DEFAULT_GRAPH_URL_STATE, artistIds });
+    expect(decodeGraphUrlState(new URLSearchParams(encoded)).artistIds).toEqual(artistIds.slice(0, MAX_URL_ARTISTS));
+  });
+});
+
+describe('decodeGraphUrlState', () => {
+  it('returns the defaults for an empty query', () => {
+    expect(decodeGraphUrlState(new URLSearchParams())).toEqual(DEFAULT_GRAPH_URL_STATE);
+  });
+
+  it('ignores invalid values', () => {
+    const state = decodeGraphUrlState(new URLSearchParams('artists=nova,bad-id!,nova,,orrin&strategy=guess&order=random&collabs=yes&remixers=1'));
+    expect(state).toEqual({ ...DEFAULT_GRAPH_URL_STATE, artistIds: ['nova', 'orrin'] });
+  });
+
+  it('keeps the valid versions and falls back to all of them when none are valid', () => {
+    expect(decodeGraphUrlState(new URLSearchParams('versions=live,bogus')).versions).toEqual(['live']);
+    expect(decodeGraphUrlState(new URLSearchParams('versions=bogus')).versions).toEqual(DEFAULT_GRAPH_URL_STATE.versions);
+    expect(decodeGraphUrlState(new URLSearchParams('versions=')).versions).toEqual(DEFAULT_GRAPH_URL_STATE.versions);
+  });
+});
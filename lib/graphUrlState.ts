@@ -0,0 +1,65 @@
+// lib/graphUrlState.ts
+// Encodes the search page's graph (graphed artist IDs, seed first) and its filters in the URL
+// query string, so a graph can be shared as a link and restored by re-fetching its artists.
+// Settings at their default value are left out of the URL; unknown or invalid values are ignored.
+import { isPlaylistOrder, type PlaylistOrder } from './playlistOrder';
+import type { TrackDiscoveryStrategy } from './spotify';
+import { isTrackVersionType, TRACK_VERSION_TYPES, type TrackVersionType } from './trackVersions';
+
+export const MAX_URL_ARTISTS = 50; // One batch of Spotify's "get several artists"
+
+export interface GraphUrlState {
+  artistIds: string[]; // Graphed artists, seed first
+  strategy: TrackDiscoveryStrategy;
+  versions: TrackVersionType[];
+  collaborationsOnly: boolean;
+  separateRemixers: boolean;
+  order: PlaylistOrder;
+}
+
+// Everything but the artists: how the graph is explored and filtered
+export type GraphFilters = Omit<GraphUrlState, 'artistIds'>;
+
+export const DEFAULT_GRAPH_URL_STATE: GraphUrlState = {
+  artistIds: [],
+  strategy: 'search',
+  versions: TRACK_VERSION_TYPES.map(type => type.id),
+  collaborationsOnly: false,
+  separateRemixers: false,
+  order: 'popularity',
+};
+
+const SPOTIFY_ID_PATTERN = /^[A-Za-z0-9]{1,64}$/;
+
+// Query string (without "?") for the state, e.g. "artists=id1,id2&versions=original,live"
+export function encodeGraphUrlState(state: GraphUrlState): string {
+  const params = new URLSearchParams();
+  if (state.artistIds.length > 0) params.set('artists', state.artistIds.slice(0, MAX_URL_ARTISTS).join(','));
+  if (state.strategy !== DEFAULT_GRAPH_URL_STATE.strategy) params.set('strategy', state.strategy);
+  if (!DEFAULT_GRAPH_URL_STATE.versions.every(type => state.versions.includes(type))) {
+    params.set('versions', state.versions.join(','));
+  }
+  if (state.collaborationsOnly) params.set('collabs', '1');
+  if (state.separateRemixers) params.set('remixers', 'separate');
+  if (state.order !== DEFAULT_GRAPH_URL_STATE.order) params.set('order', state.order);
+  // Keep the commas readable
+  return params.toString().replace(/%2C/g, ',');
+}
+
+export function decodeGraphUrlState(params: URLSearchParams): GraphUrlState {
+  const list = (name: string) => (params.get(name) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+  const artistIds = Array.from(new Set(list('artists').filter(id => SPOTIFY_ID_PATTERN.test(id)))).slice(0, MAX_URL_ARTISTS);
+  const strategy = params.get('strategy');
+  const order = params.get('order');
+  return {
+    artistIds,
+    strategy: strategy === 'search' || strategy === 'discography' ? strategy : DEFAULT_GRAPH_URL_STATE.strategy,
+    // An empty or fully invalid list falls back to all versions rather than hiding every track
+    versions: params.has('versions') && list('versions').some(isTrackVersionType)
+      ? list('versions').filter(isTrackVersionType)
+      : DEFAULT_GRAPH_URL_STATE.versions,
+    collaborationsOnly: params.get('collabs') === '1',
+    separateRemixers: params.get('remixers') === 'separate',
+    order: isPlaylistOrder(order) ? order : DEFAULT_GRAPH_URL_STATE.order,
+  };
+}
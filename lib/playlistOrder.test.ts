@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { isPlaylistOrder, orderTracks } from './playlistOrder';
+import type { SpotifyTrack } from './spotifyTypes';
+
+function track(id: string, artistIds: string[], popularity?: number, releaseDate?: string): SpotifyTrack {
+  return {
+    id,
+    name: id,
+    artists: artistIds.map(artistId => ({ id: artistId, name: artistId })),
+    album: { name: id, release_date: releaseDate },
+    uri: `spotify:track:${id}`,
+    popularity,
+  };
+}
+
+const ids = (tracks: SpotifyTrack[]) => tracks.map(song => song.id);
+
+describe('orderTracks', () => {
+  it('keeps the given order by default, in a new array', () => {
+    const tracks = [track('1', ['a']), track('2', ['b'])];
+    const ordered = orderTracks(tracks, 'as_given');
+    expect(ordered).toEqual(tracks);
+    expect(ordered).not.toBe(tracks);
+  });
+
+  it('puts the most popular tracks first, keeping the given order for ties', () => {
+    const tracks = [track('low', ['a'], 10), track('tie1', ['a'], 50), track('unknown', ['a']), track('top', ['a'], 90), track('tie2', ['a'], 50)];
+    expect(ids(orderTracks(tracks, 'popularity'))).toEqual(['top', 'tie1', 'tie2', 'low', 'unknown']);
+  });
+
+  it('puts the newest tracks first, reading partial dates as the start of the period and unknown dates last', () => {
+    const tracks = [
+      track('unknown', ['a']),
+      track('2020', ['a'], 0, '2020'),
+      track('2020-03', ['a'], 0, '2020-03'),
+      track('2021-01-05', ['a'], 0, '2021-01-05'),
+      track('2020-01-01', ['a'], 0, '2020-01-01'),
+    ];
+    expect(ids(orderTracks(tracks, 'release_date'))).toEqual(['2021-01-05', '2020-03', '2020', '2020-01-01', 'unknown']);
+  });
+
+  it('alternates between graphed artists, most popular first, with other tracks last', () => {
+    const tracks = [
+      track('a-low', ['a'], 10),
+      track('other', ['x'], 99),
+      track('b-only', ['b', 'x'], 40),
+      track('a-high', ['a'], 90),
+      track('a-tie', ['a'], 10),
+    ];
+    expect(ids(orderTracks(tracks, 'round_robin', ['a', 'b']))).toEqual(['a-high', 'b-only', 'a-low', 'a-tie', 'other']);
+  });
+
+  it('buckets tracks under their first credited graphed artist', () => {
+    const tracks = [track('ba', ['b', 'a'], 90), track('a', ['a'], 50), track('b', ['b'], 10)];
+    expect(ids(orderTracks(tracks, 'round_robin', ['a', 'b']))).toEqual(['a', 'ba', 'b']);
+  });
+
+  it('groups tracks by collaboration pair, biggest pairings first and solo tracks last', () => {
+    const tracks = [
+      track('ax-low', ['a', 'x'], 10),
+      track('a-solo', ['a'], 90),
+      track('ax-high', ['a', 'x'], 50),
+      track('by', ['b', 'y'], 70),
+      track('xa', ['x', 'a'], 5), // Same pair, credited the other way round
+    ];
+    expect(ids(orderTracks(tracks, 'collaboration_pairs', ['a', 'b']))).toEqual(['ax-high', 'ax-low', 'xa', 'by', 'a-solo']);
+  });
+
+  it('keeps first-seen order for pairings of the same size', () => {
+    const tracks = [track('by', ['b', 'y'], 10), track('ax', ['a', 'x'], 20)];
+    expect(ids(orderTracks(tracks, 'collaboration_pairs', ['a', 'b']))).toEqual(['ax', 'by']);
+  });
+
+  it('walks out from the seed along the heaviest collaborations', () => {
+    const tracks = [
+      track('ab1', ['a', 'b'], 10),
+      track('ab2', ['a', 'b'], 20),
+      track('ac', ['a', 'c'], 30),
+      track('cd', ['c', 'd'], 40),
+      track('a', ['a'], 5),
+      track('b', ['b'], 90),
+      track('e', ['e'], 1),
+      track('other', ['x'], 99),
+    ];
+    // a, then its neighbours b (two tracks) and c (one), then d via c; e isn't connected and starts a new walk
+    expect(ids(orderTracks(tracks, 'graph_walk', ['a', 'c', 'b', 'd', 'e']))).toEqual(['a', 'ab2', 'ab1', 'b', 'ac', 'cd', 'e', 'other']);
+  });
+
+  it('only orders by the graphed artists it is given', () => {
+    const tracks = [track('1', ['a'], 10), track('2', ['b'], 90)];
+    expect(ids(orderTracks(tracks, 'round_robin'))).toEqual(['2', '1']);
+    expect(ids(orderTracks(tracks, 'graph_walk'))).toEqual(['2', '1']);
+  });
+});
+
+describe('isPlaylistOrder', () => {
+  it('accepts the known orders only', () => {
+    expect(isPlaylistOrder('graph_walk')).toBe(true);
+    expect(isPlaylistOrder('shuffle')).toBe(false);
+    expect(isPlaylistOrder(undefined)).toBe(false);
+  });
+});
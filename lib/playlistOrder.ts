@@ -0,0 +1,158 @@
+// lib/playlistOrder.ts
+// Ordering strategies for playlists built from a collaboration graph. Each strategy returns a
+// new array and keeps the incoming order for ties, so results are deterministic.
+import { computeEdges } from './graph';
+import type { SpotifyTrack } from './spotifyTypes';
+
+export type PlaylistOrder =
+  | 'as_given'            // Keep the order the tracks were sent in
+  | 'popularity'          // Most popular first
+  | 'release_date'        // Newest first
+  | 'round_robin'         // One track per graphed artist in turn, so no artist dominates a stretch
+  | 'collaboration_pairs' // Tracks grouped by the pair of artists on them, biggest pairings first
+  | 'graph_walk';         // Follows collaboration edges outward from the seed artist
+
+export const PLAYLIST_ORDERS: { id: PlaylistOrder; label: string }[] = [
+  { id: 'popularity', label: 'Most popular first' },
+  { id: 'release_date', label: 'Newest first' },
+  { id: 'round_robin', label: 'Alternate between artists' },
+  { id: 'collaboration_pairs', label: 'Grouped by collaboration' },
+  { id: 'graph_walk', label: 'Walk out from the seed artist' },
+  { id: 'as_given', label: 'As listed' },
+];
+
+export function isPlaylistOrder(value: unknown): value is PlaylistOrder {
+  return PLAYLIST_ORDERS.some(order => order.id === value);
+}
+
+// Orders `tracks` with the given strategy. `graphArtistIds` lists the graphed artists in
+// insertion order (the seed first); the artist-based strategies only look at those artists.
+export function orderTracks(tracks: SpotifyTrack[], order: PlaylistOrder, graphArtistIds: string[] = []): SpotifyTrack[] {
+  switch (order) {
+    case 'popularity':
+      return byPopularity(tracks);
+    case 'release_date':
+      return stableSort(tracks, (a, b) => releaseDateKey(b).localeCompare(releaseDateKey(a)));
+    case 'round_robin':
+      return roundRobin(tracks, graphArtistIds);
+    case 'collaboration_pairs':
+      return groupByCollaborationPair(tracks, graphArtistIds);
+    case 'graph_walk':
+      return graphWalk(tracks, graphArtistIds);
+    default:
+      return [...tracks];
+  }
+}
+
+function stableSort<T>(items: T[], compare: (a: T, b: T) => number): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => compare(a.item, b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+function byPopularity(tracks: SpotifyTrack[]): SpotifyTrack[] {
+  return stableSort(tracks, (a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+}
+
+// Sortable "YYYY-MM-DD" key; less precise dates sort as the start of their year/month, unknown dates last
+function releaseDateKey(track: SpotifyTrack): string {
+  const date = track.album.release_date;
+  if (!date) return '';
+  const [year, month = '01', day = '01'] = date.split('-');
+  return `${year}-${month}-${day}`;
+}
+
+// The first credited artist that is in the graph, if any
+function primaryArtistId(track: SpotifyTrack, graphArtistIds: Set<string>): string | null {
+  return track.artists.find(artist => graphArtistIds.has(artist.id))?.id ?? null;
+}
+
+// Buckets tracks by primary graphed artist (most popular first within a bucket) and takes
+// one from each bucket in graph order until all are used
+function roundRobin(tracks: SpotifyTrack[], graphArtistIds: string[]): SpotifyTrack[] {
+  const graphIds = new Set(graphArtistIds);
+  const buckets = new Map<string, SpotifyTrack[]>(graphArtistIds.map(id => [id, []]));
+  const others: SpotifyTrack[] = [];
+  byPopularity(tracks).forEach(track => {
+    const primary = primaryArtistId(track, graphIds);
+    if (primary) buckets.get(primary)!.push(track);
+    else others.push(track);
+  });
+
+  const queues = Array.from(buckets.values()).filter(bucket => bucket.length > 0);
+  const ordered: SpotifyTrack[] = [];
+  for (let round = 0; ordered.length + others.length < tracks.length; round++) {
+    queues.forEach(queue => {
+      if (round < queue.length) ordered.push(queue[round]);
+    });
+  }
+  return [...ordered, ...others];
+}
+
+// Groups tracks by their primary graphed artist and first other credited artist. Pairs with
+// the most tracks come first, then solo tracks; within a group, most popular first.
+function groupByCollaborationPair(tracks: SpotifyTrack[], graphArtistIds: string[]): SpotifyTrack[] {
+  const graphIds = new Set(graphArtistIds);
+  const groups = new Map<string, { solo: boolean; tracks: SpotifyTrack[] }>();
+  byPopularity(tracks).forEach(track => {
+    const primary = primaryArtistId(track, graphIds) ?? track.artists[0]?.id ?? '';
+    const partner = track.artists.find(artist => artist.id !== primary)?.id;
+    const key = partner ? [primary, partner].sort().join('|') : primary;
+    const group = groups.get(key) || { solo: !partner, tracks: [] };
+    group.tracks.push(track);
+    groups.set(key, group);
+  });
+  return stableSort(Array.from(groups.values()), (a, b) => Number(a.solo) - Number(b.solo) || b.tracks.length - a.tracks.length)
+    .flatMap(group => group.tracks);
+}
+
+// Visits graphed artists breadth-first from the seed along collaboration edges (heaviest first;
+// unconnected artists start a new walk in graph order). Visiting an artist adds the tracks that
+// credit only visited graph artists: first those shared with the artist it was reached from,
+// then the rest, most popular first.
+function graphWalk(tracks: SpotifyTrack[], graphArtistIds: string[]): SpotifyTrack[] {
+  const graphIds = new Set(graphArtistIds);
+  const neighbors = new Map<string, { id: string; weight: number }[]>(graphArtistIds.map(id => [id, []]));
+  computeEdges(tracks, graphIds).forEach(edge => {
+    neighbors.get(edge.source)!.push({ id: edge.target, weight: edge.weight });
+    neighbors.get(edge.target)!.push({ id: edge.source, weight: edge.weight });
+  });
+  neighbors.forEach(list => list.sort((a, b) => b.weight - a.weight));
+
+  // Breadth-first visit order, with the artist each one was reached from
+  const visits: { id: string; from: string | null }[] = [];
+  const seen = new Set<string>();
+  graphArtistIds.forEach(start => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    const queue = [{ id: start, from: null as string | null }];
+    while (queue.length > 0) {
+      const visit = queue.shift()!;
+      visits.push(visit);
+      neighbors.get(visit.id)!.forEach(neighbor => {
+        if (seen.has(neighbor.id)) return;
+        seen.add(neighbor.id);
+        queue.push({ id: neighbor.id, from: visit.id });
+      });
+    }
+  });
+
+  const remaining = byPopularity(tracks);
+  const visited = new Set<string>();
+  const ordered: SpotifyTrack[] = [];
+  visits.forEach(({ id, from }) => {
+    visited.add(id);
+    const reachable = remaining.filter(track =>
+      track.artists.some(artist => graphIds.has(artist.id))
+      && track.artists.every(artist => !graphIds.has(artist.id) || visited.has(artist.id)));
+    const credits = (track: SpotifyTrack, artistId: string | null) => track.artists.some(artist => artist.id === artistId);
+    const viaEdge = reachable.filter(track => credits(track, id) && credits(track, from));
+    const rest = reachable.filter(track => !viaEdge.includes(track));
+    [...viaEdge, ...rest].forEach(track => {
+      ordered.push(track);
+      remaining.splice(remaining.indexOf(track), 1);
+    });
+  });
+  return [...ordered, ...remaining];
+}
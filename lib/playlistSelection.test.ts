@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterPlayableTracks, getTracksForUris, hasSelectionOptions, selectPlaylistTracks } from './playlistSelection';
+import type { SpotifyClient } from './spotifyClient';
+import type { SpotifyTrack } from './spotifyTypes';
+
+function track(id: string, artistIds: string[], popularity?: number): SpotifyTrack {
+  return {
+    id,
+    name: id,
+    artists: artistIds.map(artistId => ({ id: artistId, name: artistId })),
+    album: { name: id },
+    uri: `spotify:track:${id}`,
+    popularity,
+  };
+}
+
+const ids = (tracks: SpotifyTrack[]) => tracks.map(song => song.id);
+const noExclusions = { lowPopularity: 0, notCollaboration: 0, artistQuota: 0, sizeCap: 0 };
+
+describe('selectPlaylistTracks', () => {
+  const tracks = [
+    track('a50', ['a'], 50),
+    track('ab70', ['a', 'b'], 70),
+    track('a90', ['a'], 90),
+    track('b20', ['b'], 20),
+    track('bx40', ['b', 'x'], 40),
+    track('a-unrated', ['a']),
+  ];
+
+  it('keeps every track without options', () => {
+    expect(selectPlaylistTracks(tracks, ['a', 'b'])).toEqual({ tracks, excluded: noExclusions });
+  });
+
+  it('caps the size with the most popular tracks, in their incoming order', () => {
+    const { tracks: selected, excluded } = selectPlaylistTracks(tracks, ['a', 'b'], { maxTracks: 3 });
+    expect(ids(selected)).toEqual(['a50', 'ab70', 'a90']);
+    expect(excluded).toEqual({ ...noExclusions, sizeCap: 3 });
+  });
+
+  it('keeps the incoming order for tracks of equal popularity', () => {
+    const tied = [track('1', ['a'], 50), track('2', ['a'], 50), track('3', ['a'], 50)];
+    expect(ids(selectPlaylistTracks(tied, ['a'], { maxTracks: 2 }).tracks)).toEqual(['1', '2']);
+  });
+
+  it('limits tracks per graphed artist, counting collaborations for each credited one', () => {
+    const { tracks: selected, excluded } = selectPlaylistTracks(tracks, ['a', 'b'], { maxPerArtist: 2 });
+    // a90 and ab70 use up a's quota; ab70 also counts for b, leaving one more for b
+    expect(ids(selected)).toEqual(['ab70', 'a90', 'bx40']);
+    expect(excluded).toEqual({ ...noExclusions, artistQuota: 3 });
+  });
+
+  it("doesn't count artists outside the graph against the quota", () => {
+    const collaborations = [track('bx1', ['b', 'x'], 50), track('bx2', ['b', 'x'], 40)];
+    expect(ids(selectPlaylistTracks(collaborations, ['b'], { maxPerArtist: 2 }).tracks)).toEqual(['bx1', 'bx2']);
+  });
+
+  it('drops tracks below the minimum popularity, treating unrated tracks as 0', () => {
+    const { tracks: selected, excluded } = selectPlaylistTracks(tracks, ['a', 'b'], { minPopularity: 50 });
+    expect(ids(selected)).toEqual(['a50', 'ab70', 'a90']);
+    expect(excluded).toEqual({ ...noExclusions, lowPopularity: 3 });
+  });
+
+  it('keeps only collaborations when asked', () => {
+    const { tracks: selected, excluded } = selectPlaylistTracks(tracks, ['a', 'b'], { collaborationsOnly: true });
+    expect(ids(selected)).toEqual(['ab70', 'bx40']);
+    expect(excluded).toEqual({ ...noExclusions, notCollaboration: 4 });
+  });
+
+  it('shares the slots round-robin between graphed artists when balanced', () => {
+    const skewed = [track('a90', ['a'], 90), track('a80', ['a'], 80), track('a70', ['a'], 70), track('b10', ['b'], 10), track('b5', ['b'], 5)];
+    expect(ids(selectPlaylistTracks(skewed, ['a', 'b'], { maxTracks: 4 }).tracks)).toEqual(['a90', 'a80', 'a70', 'b10']);
+    const { tracks: selected, excluded } = selectPlaylistTracks(skewed, ['a', 'b'], { maxTracks: 4, balanced: true });
+    expect(ids(selected)).toEqual(['a90', 'a80', 'b10', 'b5']);
+    expect(excluded).toEqual({ ...noExclusions, sizeCap: 1 });
+  });
+
+  it('gives a shared track to the first artist whose turn it is and moves on', () => {
+    const shared = [track('ab90', ['a', 'b'], 90), track('a50', ['a'], 50), track('b40', ['b'], 40)];
+    // a takes ab90, then b's best remaining track is b40
+    expect(ids(selectPlaylistTracks(shared, ['a', 'b'], { maxTracks: 2, balanced: true }).tracks)).toEqual(['ab90', 'b40']);
+  });
+
+  it('applies the artist quota while balancing and leaves out tracks of other artists', () => {
+    const { tracks: selected, excluded } = selectPlaylistTracks(tracks, ['a', 'b'], { balanced: true, maxPerArtist: 1 });
+    expect(ids(selected)).toEqual(['a90', 'bx40']);
+    expect(excluded).toEqual({ ...noExclusions, artistQuota: 4 });
+  });
+});
+
+describe('hasSelectionOptions', () => {
+  it('ignores options that select everything', () => {
+    expect(hasSelectionOptions({})).toBe(false);
+    expect(hasSelectionOptions({ minPopularity: 0, collaborationsOnly: false, balanced: false })).toBe(false);
+    expect(hasSelectionOptions({ maxTracks: 50 })).toBe(true);
+    expect(hasSelectionOptions({ balanced: true })).toBe(true);
+  });
+});
+
+describe('getTracksForUris', () => {
+  it('looks tracks up 50 at a time and reports the ones Spotify did not return', async () => {
+    const uris = Array.from({ length: 60 }, (_, i) => `spotify:track:t${i}`);
+    const getTracks = vi.fn<SpotifyClient['getTracks']>(async trackIds => trackIds.map(id => {
+      if (id === 't3') return null;
+      if (id === 't4') return { ...track('relinked', ['a']), linked_from: { id, uri: `spotify:track:${id}` } };
+      return track(id, ['a']);
+    }));
+    const { tracks, missingUris } = await getTracksForUris({ getTracks } as unknown as SpotifyClient, uris, 'SE');
+
+    expect(getTracks.mock.calls.map(([trackIds, options]) => [trackIds.length, options])).toEqual([[50, { market: 'SE' }], [10, { market: 'SE' }]]);
+    expect(tracks).toHaveLength(59);
+    expect(missingUris).toEqual(['spotify:track:t3']);
+  });
+});
+
+describe('filterPlayableTracks', () => {
+  it('drops unplayable tracks and counts relinked ones', () => {
+    const relinked = { ...track('new', ['a']), linked_from: { id: 'old', uri: 'spotify:track:old' } };
+    const result = filterPlayableTracks([track('1', ['a']), { ...track('2', ['a']), is_playable: false }, relinked]);
+    expect(ids(result.tracks)).toEqual(['1', 'new']);
+    expect(result).toMatchObject({ unplayable: 1, relinked: 1 });
+  });
+});
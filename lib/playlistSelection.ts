@@ -0,0 +1,129 @@
+// lib/playlistSelection.ts
+// Chooses which graph tracks go into a generated playlist: popularity and collaboration
+// filters, a per-artist quota, a total size cap, and a balanced mode that shares the slots
+// fairly between the graphed artists. Used by /api/create-playlist and the search page preview.
+import type { SpotifyClient } from './spotifyClient';
+import type { SpotifyTrack } from './spotifyTypes';
+
+export const MAX_PLAYLIST_TRACKS = 10000; // Spotify's playlist size limit
+const MAX_TRACKS_PER_LOOKUP = 50;
+
+export interface PlaylistSelectionOptions {
+  maxTracks?: number;           // Total cap
+  maxPerArtist?: number;        // Tracks crediting the same graphed artist (collaborations count for each)
+  minPopularity?: number;       // 0-100
+  collaborationsOnly?: boolean; // Only tracks with more than one credited artist
+  balanced?: boolean;           // Allocate slots round-robin across graphed artists instead of by popularity
+}
+
+export interface PlaylistSelection {
+  tracks: SpotifyTrack[]; // Selected tracks, in their incoming order
+  excluded: {
+    lowPopularity: number;
+    notCollaboration: number;
+    artistQuota: number;
+    sizeCap: number;
+  };
+}
+
+export function hasSelectionOptions(options: PlaylistSelectionOptions): boolean {
+  return options.maxTracks !== undefined || options.maxPerArtist !== undefined
+    || (options.minPopularity ?? 0) > 0 || !!options.collaborationsOnly || !!options.balanced;
+}
+
+// Selects tracks for a playlist. `graphArtistIds` lists the graphed artists (seed first); quotas
+// and balancing only consider those artists. Tracks are considered most popular first.
+export function selectPlaylistTracks(
+  tracks: SpotifyTrack[],
+  graphArtistIds: string[],
+  options: PlaylistSelectionOptions = {}
+): PlaylistSelection {
+  const excluded = { lowPopularity: 0, notCollaboration: 0, artistQuota: 0, sizeCap: 0 };
+  const graphIds = new Set(graphArtistIds);
+  const maxTracks = Math.min(options.maxTracks ?? MAX_PLAYLIST_TRACKS, MAX_PLAYLIST_TRACKS);
+
+  const candidates = tracks
+    .filter(track => {
+      if ((track.popularity ?? 0) < (options.minPopularity ?? 0)) {
+        excluded.lowPopularity++;
+        return false;
+      }
+      if (options.collaborationsOnly && track.artists.length < 2) {
+        excluded.notCollaboration++;
+        return false;
+      }
+      return true;
+    })
+    .map((track, index) => ({ track, index }))
+    .sort((a, b) => (b.track.popularity ?? 0) - (a.track.popularity ?? 0) || a.index - b.index)
+    .map(({ track }) => track);
+
+  const perArtist = new Map<string, number>();
+  const creditedGraphArtists = (track: SpotifyTrack) =>
+    Array.from(new Set(track.artists.map(artist => artist.id).filter(id => graphIds.has(id))));
+  const withinQuota = (track: SpotifyTrack) => options.maxPerArtist === undefined
+    || creditedGraphArtists(track).every(id => (perArtist.get(id) || 0) < options.maxPerArtist!);
+  const selected = new Set<SpotifyTrack>();
+  const take = (track: SpotifyTrack) => {
+    selected.add(track);
+    creditedGraphArtists(track).forEach(id => perArtist.set(id, (perArtist.get(id) || 0) + 1));
+  };
+
+  if (options.balanced) {
+    // Each round, every graphed artist (in graph order) gets their best remaining track that fits
+    const queues = graphArtistIds.map(id => candidates.filter(track => track.artists.some(artist => artist.id === id)));
+    let progressed = true;
+    while (progressed && selected.size < maxTracks) {
+      progressed = false;
+      for (const queue of queues) {
+        if (selected.size >= maxTracks) break;
+        while (queue.length > 0 && (selected.has(queue[0]) || !withinQuota(queue[0]))) queue.shift();
+        if (queue.length === 0) continue;
+        take(queue.shift()!);
+        progressed = true;
+      }
+    }
+  } else {
+    candidates.forEach(track => {
+      if (selected.size < maxTracks && withinQuota(track)) take(track);
+    });
+  }
+
+  candidates.forEach(track => {
+    if (selected.has(track)) return;
+    if (withinQuota(track)) excluded.sizeCap++;
+    else excluded.artistQuota++;
+  });
+
+  return { tracks: tracks.filter(track => selected.has(track)), excluded };
+}
+
+// Looks up the full tracks for `trackUris` (50 per request). URIs Spotify doesn't return a
+// track for are listed in `missingUris`. With a market, tracks come back relinked to the
+// version playable there (`linked_from` holds the requested URI) and flagged with `is_playable`.
+export async function getTracksForUris(
+  client: SpotifyClient,
+  trackUris: string[],
+  market?: string
+): Promise<{ tracks: SpotifyTrack[]; missingUris: string[] }> {
+  const tracks: SpotifyTrack[] = [];
+  for (let i = 0; i < trackUris.length; i += MAX_TRACKS_PER_LOOKUP) {
+    const ids = trackUris.slice(i, i + MAX_TRACKS_PER_LOOKUP).map(uri => uri.replace('spotify:track:', ''));
+    (await client.getTracks(ids, { market })).forEach(track => {
+      if (track) tracks.push(track);
+    });
+  }
+  const found = new Set(tracks.map(track => track.linked_from?.uri ?? track.uri));
+  return { tracks, missingUris: trackUris.filter(uri => !found.has(uri)) };
+}
+
+// Splits looked-up tracks by availability in the market: unplayable ones are dropped and
+// relinked ones are counted (their `uri` already points at the playable version)
+export function filterPlayableTracks(tracks: SpotifyTrack[]): { tracks: SpotifyTrack[]; unplayable: number; relinked: number } {
+  const playable = tracks.filter(track => track.is_playable !== false);
+  return {
+    tracks: playable,
+    unplayable: tracks.length - playable.length,
+    relinked: playable.filter(track => track.linked_from && track.linked_from.uri !== track.uri).length,
+  };
+}
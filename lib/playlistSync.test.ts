@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  hasPlaylistMarker,
+  planPlaylistSync,
+  playlistMarker,
+  syncPlaylist,
+  withPlaylistMarker,
+  type PlaylistSyncPlan,
+} from './playlistSync';
+import type { SpotifyClient } from './spotifyClient';
+
+// Applies a plan the way Spotify applies the corresponding playlist requests (null: an item without a track)
+function applyPlan(currentUris: (string | null)[], plan: PlaylistSyncPlan): (string | null)[] {
+  const removed = new Set(plan.remove);
+  const uris = currentUris.filter(uri => uri === null || !removed.has(uri));
+  plan.moves.forEach(({ uri, rangeStart, insertBefore }) => {
+    expect(uris[rangeStart]).toBe(uri);
+    uris.splice(rangeStart, 1);
+    uris.splice(rangeStart < insertBefore ? insertBefore - 1 : insertBefore, 0, uri);
+  });
+  plan.insertions.forEach(({ position, uris: inserted }) => uris.splice(position, 0, ...inserted));
+  return uris;
+}
+
+describe('planPlaylistSync', () => {
+  it('does nothing when the playlist is already in sync', () => {
+    expect(planPlaylistSync(['a', 'b', 'c'], ['a', 'b', 'c'])).toEqual({ remove: [], moves: [], insertions: [] });
+  });
+
+  it('removes unwanted tracks and inserts missing ones in place', () => {
+    const plan = planPlaylistSync(['a', 'x', 'c'], ['a', 'b', 'c', 'd']);
+    expect(plan).toEqual({
+      remove: ['x'],
+      moves: [],
+      insertions: [{ position: 1, uris: ['b'] }, { position: 3, uris: ['d'] }],
+    });
+    expect(applyPlan(['a', 'x', 'c'], plan)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('moves only the tracks outside the longest ordered run', () => {
+    const plan = planPlaylistSync(['d', 'a', 'b', 'c'], ['a', 'b', 'c', 'd']);
+    expect(plan.moves).toEqual([{ uri: 'd', rangeStart: 0, insertBefore: 4 }]);
+    expect(applyPlan(['d', 'a', 'b', 'c'], plan)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('re-adds desired tracks that appear more than once', () => {
+    const plan = planPlaylistSync(['a', 'b', 'a'], ['a', 'b']);
+    expect(plan.remove).toEqual(['a']);
+    expect(applyPlan(['a', 'b', 'a'], plan)).toEqual(['a', 'b']);
+  });
+
+  it('drops duplicates from the desired list', () => {
+    expect(applyPlan([], planPlaylistSync([], ['a', 'b', 'a']))).toEqual(['a', 'b']);
+  });
+
+  it('batches consecutive insertions 100 at a time', () => {
+    const desired = Array.from({ length: 250 }, (_, i) => `t${i}`);
+    const plan = planPlaylistSync([], desired);
+    expect(plan.insertions.map(insertion => [insertion.position, insertion.uris.length])).toEqual([[0, 100], [100, 100], [200, 50]]);
+    expect(applyPlan([], plan)).toEqual(desired);
+  });
+
+  it('keeps items without a track in place and counts them for positions', () => {
+    const current = ['a', null, 'x', 'b'];
+    const plan = planPlaylistSync(current, ['a', 'c', 'b', 'd']);
+    expect(plan).toEqual({
+      remove: ['x'],
+      moves: [],
+      insertions: [{ position: 2, uris: ['c'] }, { position: 4, uris: ['d'] }],
+    });
+    expect(applyPlan(current, plan)).toEqual(['a', null, 'c', 'b', 'd']);
+  });
+
+  it('moves tracks around items without a track', () => {
+    const current = ['b', null, 'a'];
+    const plan = planPlaylistSync(current, ['a', 'b']);
+    expect(applyPlan(current, plan).filter(uri => uri !== null)).toEqual(['a', 'b']);
+    expect(applyPlan(current, plan)).toHaveLength(3);
+  });
+
+  it('always produces the desired playlist', () => {
+    // Deterministic pseudo-random playlists (linear congruential generator)
+    let seed = 42;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    for (let run = 0; run < 200; run++) {
+      const current = Array.from({ length: random(12) }, () => `t${random(10)}`);
+      const desired = Array.from(new Set(Array.from({ length: random(12) }, () => `t${random(10)}`)));
+      expect(applyPlan(current, planPlaylistSync(current, desired))).toEqual(desired);
+    }
+  });
+
+  it('always produces the desired tracks around items without a track', () => {
+    let seed = 7;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    for (let run = 0; run < 200; run++) {
+      const current = Array.from({ length: random(12) }, () => (random(4) === 0 ? null : `t${random(10)}`));
+      const desired = Array.from(new Set(Array.from({ length: random(12) }, () => `t${random(10)}`)));
+      const synced = applyPlan(current, planPlaylistSync(current, desired));
+      expect(synced.filter(uri => uri !== null)).toEqual(desired);
+      expect(synced.filter(uri => uri === null)).toHaveLength(current.filter(uri => uri === null).length);
+    }
+  });
+});
+
+describe('syncPlaylist', () => {
+  // A playlist that handles requests the way Spotify does
+  function fakeClient(items: (string | null)[]) {
+    const client = {
+      getPlaylistTracks: vi.fn(async () => ({ items: items.map(uri => ({ added_at: null, track: uri === null ? null : { uri } })) })),
+      getAllPages: vi.fn(async (page: { items: unknown[] }) => page.items),
+      removeTracksFromPlaylist: vi.fn(async (_id: string, uris: string[]) => {
+        items = items.filter(uri => uri === null || !uris.includes(uri));
+        return { snapshot_id: 'removed' };
+      }),
+      reorderPlaylistTracks: vi.fn(async (_id: string, { rangeStart, insertBefore }: { rangeStart: number; insertBefore: number }) => {
+        const [moved] = items.splice(rangeStart, 1);
+        items.splice(rangeStart < insertBefore ? insertBefore - 1 : insertBefore, 0, moved);
+        return { snapshot_id: 'moved' };
+      }),
+      addTracksToPlaylist: vi.fn(async (_id: string, uris: string[], position: number) => {
+        items.splice(position, 0, ...uris);
+        return { snapshot_id: 'added' };
+      }),
+    };
+    return { client: client as unknown as SpotifyClient, calls: client, items: () => items };
+  }
+
+  it('syncs around an unavailable track in the middle of the playlist', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { client, calls, items } = fakeClient(['c', 'a', null, 'x', 'b']);
+    const result = await syncPlaylist(client, { id: 'playlist', snapshot_id: 'start' }, ['a', 'b', 'c', 'd']);
+
+    expect(items().filter(uri => uri !== null)).toEqual(['a', 'b', 'c', 'd']);
+    expect(items()).toHaveLength(5);
+    expect(calls.removeTracksFromPlaylist).toHaveBeenCalledWith('playlist', ['x'], 'start');
+    expect(result).toEqual({ added: 1, removed: 1, moved: 1, total: 5, snapshotId: 'added' });
+  });
+});
+
+describe('playlist marker', () => {
+  it('appends the marker and finds it again', () => {
+    const description = withPlaylistMarker('Collaborations of Nova Vale', 'nova');
+    expect(description).toBe(`Collaborations of Nova Vale ${playlistMarker('nova')}`);
+    expect(hasPlaylistMarker({ description }, 'nova')).toBe(true);
+    expect(hasPlaylistMarker({ description }, 'kestrel')).toBe(false);
+    expect(hasPlaylistMarker({ description: null }, 'nova')).toBe(false);
+  });
+
+  it("shortens long descriptions to fit Spotify's limit", () => {
+    const description = withPlaylistMarker('x'.repeat(400), 'nova');
+    expect(description).toHaveLength(300);
+    expect(description.endsWith(`… ${playlistMarker('nova')}`)).toBe(true);
+  });
+
+  it('uses the marker alone for an empty description', () => {
+    expect(withPlaylistMarker('', 'nova')).toBe(playlistMarker('nova'));
+  });
+});
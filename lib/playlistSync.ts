@@ -0,0 +1,199 @@
+// lib/playlistSync.ts
+// Syncs an existing Spotify playlist to a list of track URIs instead of creating a new one:
+// removes tracks that are no longer wanted, moves the kept ones into place with as few moves
+// as possible, then inserts the missing ones at their positions. Playlists the app creates
+// carry a marker in their description so a later sync can find them again.
+import type { SpotifyClient } from './spotifyClient';
+import type { SpotifyPlaylist } from './spotifyTypes';
+
+const MAX_TRACKS_PER_REQUEST = 100;
+const MAX_DESCRIPTION_LENGTH = 300; // Spotify's limit for playlist descriptions
+
+export interface PlaylistMove {
+  uri: string | null;   // null for an item without a track
+  rangeStart: number;   // Index of the track before the move
+  insertBefore: number; // Index (before the move) the track is placed in front of
+}
+
+export interface PlaylistInsertion {
+  position: number; // Index the first URI ends up at
+  uris: string[];
+}
+
+// Steps to turn a playlist's current tracks into the desired ones, applied in this order
+export interface PlaylistSyncPlan {
+  remove: string[];                // Removes every occurrence of these URIs
+  moves: PlaylistMove[];           // Applied one after another to the list left after removals
+  insertions: PlaylistInsertion[]; // Applied in order, after the moves
+}
+
+export interface PlaylistSyncChanges {
+  added: number;
+  removed: number;
+  moved: number;
+}
+
+export interface PlaylistSyncResult extends PlaylistSyncChanges {
+  total: number; // Tracks in the playlist after the sync
+  snapshotId?: string;
+}
+
+// --- Description marker ---
+
+export function playlistMarker(syncKey: string): string {
+  return `[artist-graph:${syncKey}]`;
+}
+
+// Appends the marker, shortening the description if needed to stay within Spotify's limit
+export function withPlaylistMarker(description: string, syncKey: string): string {
+  const marker = playlistMarker(syncKey);
+  const room = MAX_DESCRIPTION_LENGTH - marker.length - 1;
+  const text = description.length > room ? `${description.slice(0, room - 1).trimEnd()}…` : description;
+  return text ? `${text} ${marker}` : marker;
+}
+
+export function hasPlaylistMarker(playlist: Pick<SpotifyPlaylist, 'description'>, syncKey: string): boolean {
+  return (playlist.description || '').includes(playlistMarker(syncKey));
+}
+
+// First listed playlist owned by `userId` that carries the marker for `syncKey`.
+// Private playlists are only listed with the 'playlist-read-private' scope.
+export async function findMarkedPlaylist(
+  client: SpotifyClient,
+  userId: string,
+  syncKey: string
+): Promise<SpotifyPlaylist | null> {
+  const playlists = await client.getAllPages(await client.getCurrentUserPlaylists());
+  return playlists.find(playlist => playlist.owner.id === userId && hasPlaylistMarker(playlist, syncKey)) || null;
+}
+
+// --- Diff ---
+
+// Computes the removals, moves and insertions that turn `currentUris` into `desiredUris`
+// (duplicates in `desiredUris` are dropped). Tracks kept in the playlist stay in place when
+// they're already in the right relative order (longest increasing subsequence); the others
+// are moved. A desired track the playlist contains more than once is removed and re-added.
+// A null entry is an item without a track: it can't be removed by URI, so it stays in the
+// playlist right after the desired track it currently follows.
+export function planPlaylistSync(currentUris: (string | null)[], desiredUris: string[]): PlaylistSyncPlan {
+  // Placeholder keys for items without a track; the leading NUL keeps them apart from URIs
+  const placeholders = new Set<string>();
+  const current = currentUris.map((uri, index) => {
+    if (uri !== null) return uri;
+    const key = `\u0000no-track:${index}`;
+    placeholders.add(key);
+    return key;
+  });
+  const desiredUnique = Array.from(new Set(desiredUris)).filter(uri => !placeholders.has(uri));
+
+  const following = new Map<string | null, string[]>(); // Placeholders by the desired track they follow
+  const desiredSet = new Set(desiredUnique);
+  let previousDesired: string | null = null;
+  current.forEach(key => {
+    if (desiredSet.has(key)) {
+      previousDesired = key;
+    } else if (placeholders.has(key)) {
+      following.set(previousDesired, [...(following.get(previousDesired) || []), key]);
+    }
+  });
+  const desired = [...(following.get(null) || []), ...desiredUnique.flatMap(uri => [uri, ...(following.get(uri) || [])])];
+  const desiredIndex = new Map(desired.map((uri, index) => [uri, index]));
+
+  const occurrences = new Map<string, number>();
+  current.forEach(uri => occurrences.set(uri, (occurrences.get(uri) || 0) + 1));
+  const remove = Array.from(occurrences.keys())
+    .filter(uri => !desiredIndex.has(uri) || occurrences.get(uri)! > 1);
+  const removeSet = new Set(remove);
+
+  // Order the kept tracks, leaving the longest already-ordered run untouched
+  const working = current.filter(uri => !removeSet.has(uri));
+  const stable = new Set(longestIncreasingRun(working.map(uri => desiredIndex.get(uri)!)).map(i => working[i]));
+  const keptInDesiredOrder = desired.filter(uri => working.includes(uri));
+  const moves: PlaylistMove[] = [];
+  keptInDesiredOrder.forEach((uri, index) => {
+    if (stable.has(uri)) return;
+    // Place the track right after its predecessor among the kept tracks (or first)
+    const rangeStart = working.indexOf(uri);
+    const insertBefore = index === 0 ? 0 : working.indexOf(keptInDesiredOrder[index - 1]) + 1;
+    if (rangeStart === insertBefore) return;
+    moves.push({ uri: placeholders.has(uri) ? null : uri, rangeStart, insertBefore });
+    working.splice(rangeStart, 1);
+    working.splice(rangeStart < insertBefore ? insertBefore - 1 : insertBefore, 0, uri);
+  });
+
+  // The kept tracks are now in desired order, so each missing run goes at its desired index
+  const present = new Set(working);
+  const insertions: PlaylistInsertion[] = [];
+  desired.forEach((uri, position) => {
+    if (present.has(uri)) return;
+    const last = insertions[insertions.length - 1];
+    if (last && last.position + last.uris.length === position && last.uris.length < MAX_TRACKS_PER_REQUEST) {
+      last.uris.push(uri);
+    } else {
+      insertions.push({ position, uris: [uri] });
+    }
+  });
+
+  return { remove, moves, insertions };
+}
+
+// Indexes (into `values`) of a longest strictly increasing subsequence
+function longestIncreasingRun(values: number[]): number[] {
+  const tails: number[] = []; // tails[k]: index of the smallest tail of an increasing run of length k + 1
+  const previous: number[] = new Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+  const run: number[] = [];
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    run.unshift(i);
+  }
+  return run;
+}
+
+// --- Sync ---
+
+// Brings `playlist` in line with `desiredUris` and reports what changed. Items without a
+// track (e.g. no longer available) are left in the playlist but still count for positions.
+export async function syncPlaylist(
+  client: SpotifyClient,
+  playlist: Pick<SpotifyPlaylist, 'id' | 'snapshot_id'>,
+  desiredUris: string[]
+): Promise<PlaylistSyncResult> {
+  const items = await client.getAllPages(await client.getPlaylistTracks(playlist.id));
+  const currentUris = items.map(item => item.track?.uri ?? null);
+  const plan = planPlaylistSync(currentUris, desiredUris);
+
+  let snapshotId = playlist.snapshot_id;
+  for (let i = 0; i < plan.remove.length; i += MAX_TRACKS_PER_REQUEST) {
+    ({ snapshot_id: snapshotId } = await client.removeTracksFromPlaylist(
+      playlist.id, plan.remove.slice(i, i + MAX_TRACKS_PER_REQUEST), snapshotId
+    ));
+  }
+  for (const move of plan.moves) {
+    ({ snapshot_id: snapshotId } = await client.reorderPlaylistTracks(playlist.id, { ...move, snapshotId }));
+  }
+  for (const insertion of plan.insertions) {
+    ({ snapshot_id: snapshotId } = await client.addTracksToPlaylist(playlist.id, insertion.uris, insertion.position));
+  }
+
+  const removed = new Set(plan.remove);
+  const removedCount = currentUris.filter(uri => uri !== null && removed.has(uri)).length;
+  const addedCount = plan.insertions.reduce((sum, insertion) => sum + insertion.uris.length, 0);
+  console.log(`[PlaylistSync] Synced playlist ${playlist.id}: +${addedCount} -${removedCount}, ${plan.moves.length} moved.`);
+  return {
+    added: addedCount,
+    removed: removedCount,
+    moved: plan.moves.length,
+    total: items.length - removedCount + addedCount,
+    snapshotId,
+  };
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  executeSpotifyRequest,
+  parseRetryAfter,
+  RequestBudget,
+  RequestBudgetExceededError,
+  withRequestBudget,
+} from './requestExecutor';
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ status }), { status, headers });
+}
+
+// Answers with the given statuses in turn, then keeps repeating the last one
+function sequence(...statuses: (number | Response)[]) {
+  let call = 0;
+  return vi.fn(async () => {
+    const next = statuses[Math.min(call++, statuses.length - 1)];
+    return typeof next === 'number' ? respond(next) : next;
+  });
+}
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('-1')).toBe(0);
+  });
+
+  it('reads HTTP dates relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT')).toBe(10_000);
+    vi.useRealTimers();
+  });
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('executeSpotifyRequest', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff delay
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns successful and client error responses without retrying', async () => {
+    const ok = sequence(200);
+    expect((await executeSpotifyRequest(ok, 'test')).status).toBe(200);
+    const notFound = sequence(404);
+    expect((await executeSpotifyRequest(notFound, 'test')).status).toBe(404);
+    expect(ok).toHaveBeenCalledTimes(1);
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries server errors until one succeeds', async () => {
+    const send = sequence(500, 503, 200);
+    expect((await executeSpotifyRequest(send, 'test')).status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once retries are exhausted', async () => {
+    const send = sequence(502);
+    expect((await executeSpotifyRequest(send, 'test')).status).toBe(502);
+    expect(send).toHaveBeenCalledTimes(5);
+  });
+
+  it('retries 429 responses after Retry-After', async () => {
+    const send = sequence(respond(429, { 'Retry-After': '0' }), 200);
+    expect((await executeSpotifyRequest(send, 'test')).status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on a Retry-After beyond the limit', async () => {
+    const send = sequence(respond(429, { 'Retry-After': '3600' }), 200);
+    expect((await executeSpotifyRequest(send, 'test')).status).toBe(429);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('charges every attempt against the active budget', async () => {
+    const budget = new RequestBudget(3);
+    await withRequestBudget(budget, () => executeSpotifyRequest(sequence(500, 200), 'test'));
+    expect(budget.requestsUsed).toBe(2);
+    expect(budget.remaining).toBe(1);
+
+    await expect(withRequestBudget(budget, () => executeSpotifyRequest(sequence(500, 200), 'test')))
+      .rejects.toBeInstanceOf(RequestBudgetExceededError);
+    expect(budget.remaining).toBe(0);
+  });
+
+  it('caps concurrent requests', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const send = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return respond(200);
+    };
+    await Promise.all(Array.from({ length: 10 }, () => executeSpotifyRequest(send, 'test')));
+    expect(maxActive).toBe(4);
+  });
+});
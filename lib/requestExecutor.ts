@@ -0,0 +1,149 @@
+// lib/requestExecutor.ts
+// Shared executor for outgoing Spotify API calls. It:
+// - caps the number of concurrent in-flight requests across the whole server,
+// - retries 429 responses after the Retry-After delay (pausing all other calls too),
+// - retries 5xx responses with jittered exponential backoff,
+// - charges each attempt against the active request budget, if one is set.
+import { AsyncLocalStorage } from 'async_hooks';
+
+const MAX_CONCURRENCY = Number(process.env.SPOTIFY_MAX_CONCURRENCY) || 4;
+const MAX_RETRIES = Number(process.env.SPOTIFY_MAX_RETRIES) || 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 60_000; // Give up instead of waiting longer than this for a 429
+
+// --- Request budget ---
+
+export class RequestBudgetExceededError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Spotify request budget of ${limit} requests exhausted`);
+    this.name = 'RequestBudgetExceededError';
+  }
+}
+
+export class RequestBudget {
+  private used = 0;
+
+  constructor(public readonly limit: number) {}
+
+  get requestsUsed(): number {
+    return this.used;
+  }
+
+  get remaining(): number {
+    return Math.max(this.limit - this.used, 0);
+  }
+
+  consume(): void {
+    if (this.used >= this.limit) {
+      throw new RequestBudgetExceededError(this.limit);
+    }
+    this.used++;
+  }
+}
+
+const budgetStorage = new AsyncLocalStorage<RequestBudget>();
+
+// Runs `fn` with `budget` applied to every Spotify request it makes (including nested calls)
+export function withRequestBudget<T>(budget: RequestBudget, fn: () => Promise<T>): Promise<T> {
+  return budgetStorage.run(budget, fn);
+}
+
+export function getCurrentRequestBudget(): RequestBudget | undefined {
+  return budgetStorage.getStore();
+}
+
+// Runs `fn` outside any request budget, for work that isn't on behalf of a single request
+export function withoutRequestBudget<T>(fn: () => Promise<T>): Promise<T> {
+  return budgetStorage.exit(fn);
+}
+
+// --- Concurrency limiting ---
+
+let activeRequests = 0;
+const waitingQueue: (() => void)[] = [];
+let pausedUntil = 0; // Set when Spotify answers 429; every caller waits until then
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function acquireSlot(): Promise<void> {
+  if (activeRequests < MAX_CONCURRENCY) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>(resolve => waitingQueue.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingQueue.shift();
+  if (next) {
+    next(); // Hand the slot straight to the next waiter
+  } else {
+    activeRequests--;
+  }
+}
+
+// Parses Retry-After (either delta-seconds or an HTTP date) into milliseconds
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.random() * exponential; // "Full jitter"
+}
+
+// Sends a request through the shared executor. `send` is called once per attempt and
+// must create a fresh request each time. Returns the final response (which may still
+// be a non-OK status once retries are exhausted); callers handle error bodies as before.
+export async function executeSpotifyRequest(send: () => Promise<Response>, label: string): Promise<Response> {
+  const budget = getCurrentRequestBudget();
+
+  for (let attempt = 0; ; attempt++) {
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+
+    budget?.consume();
+    await acquireSlot();
+    let response: Response;
+    try {
+      response = await send();
+    } finally {
+      releaseSlot();
+    }
+
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= MAX_RETRIES) {
+      return response;
+    }
+
+    let delay: number;
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        console.warn(`[RequestExecutor] ${label}: Retry-After of ${Math.round(retryAfter / 1000)}s exceeds limit, giving up.`);
+        return response;
+      }
+      delay = retryAfter ?? backoffDelay(attempt);
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    } else {
+      delay = backoffDelay(attempt);
+    }
+
+    console.warn(`[RequestExecutor] ${label}: status ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES}).`);
+    // Free the connection before waiting. Not awaited: the promise never settles when the body
+    // was tee'd (e.g. by the framework's fetch instrumentation)
+    void response.body?.cancel().catch(() => undefined);
+    await sleep(delay);
+  }
+}
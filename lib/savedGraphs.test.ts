@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from './apiErrors';
+import { DEFAULT_GRAPH_URL_STATE } from './graphUrlState';
+import { MAX_SAVED_GRAPHS, parseSavedGraphInput, SavedGraphLimitError, SavedGraphStore, type SavedGraphInput } from './savedGraphs';
+import { MemoryCacheStore } from './trackCache';
+
+const { strategy, versions, order } = DEFAULT_GRAPH_URL_STATE;
+const input = (name: string): SavedGraphInput => ({
+  name,
+  artists: [{ id: 'nova', name: 'Nova Vale' }],
+  filters: { strategy, versions, collaborationsOnly: false, separateRemixers: false, order },
+  playlistIds: ['playlist1'],
+});
+
+describe('SavedGraphStore', () => {
+  let store: SavedGraphStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    store = new SavedGraphStore(new MemoryCacheStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates graphs and lists them most recently updated first', async () => {
+    const first = await store.create('alice', input('First'));
+    vi.advanceTimersByTime(1000);
+    const second = await store.create('alice', input('Second'));
+
+    expect(first).toMatchObject({ ...input('First'), createdAt: Date.now() - 1000, updatedAt: Date.now() - 1000 });
+    expect(first.id).not.toBe(second.id);
+    expect((await store.list('alice')).map(graph => graph.name)).toEqual(['Second', 'First']);
+    expect(await store.get('alice', first.id)).toEqual(first);
+    expect(await store.list('bob')).toEqual([]);
+  });
+
+  it('renames a graph and moves it to the top', async () => {
+    const first = await store.create('alice', input('First'));
+    vi.advanceTimersByTime(1000);
+    await store.create('alice', input('Second'));
+    vi.advanceTimersByTime(1000);
+
+    const renamed = await store.update('alice', first.id, { name: 'Renamed' });
+    expect(renamed).toMatchObject({ id: first.id, name: 'Renamed', createdAt: first.createdAt, updatedAt: Date.now() });
+    expect((await store.list('alice')).map(graph => graph.name)).toEqual(['Renamed', 'Second']);
+    expect(await store.update('alice', 'missing', { name: 'Nope' })).toBeNull();
+  });
+
+  it('duplicates a graph without its playlists', async () => {
+    const original = await store.create('alice', input('Mix'));
+    const copy = await store.duplicate('alice', original.id);
+    expect(copy).toMatchObject({ name: 'Mix (copy)', artists: original.artists, filters: original.filters, playlistIds: [] });
+    expect(copy!.id).not.toBe(original.id);
+    expect((await store.duplicate('alice', original.id, 'Named'))?.name).toBe('Named');
+    expect(await store.list('alice')).toHaveLength(3);
+    expect(await store.duplicate('alice', 'missing')).toBeNull();
+  });
+
+  it('deletes graphs', async () => {
+    const graph = await store.create('alice', input('Mix'));
+    expect(await store.delete('alice', graph.id)).toBe(true);
+    expect(await store.delete('alice', graph.id)).toBe(false);
+    expect(await store.list('alice')).toEqual([]);
+  });
+
+  it("doesn't let one user read or change another user's graphs", async () => {
+    const graph = await store.create('alice', input('Private'));
+
+    expect(await store.get('bob', graph.id)).toBeNull();
+    expect(await store.update('bob', graph.id, { name: 'Mine now' })).toBeNull();
+    expect(await store.duplicate('bob', graph.id)).toBeNull();
+    expect(await store.delete('bob', graph.id)).toBe(false);
+
+    expect(await store.list('bob')).toEqual([]);
+    expect(await store.list('alice')).toEqual([graph]);
+  });
+
+  it('caps the number of graphs per user', async () => {
+    for (let i = 0; i < MAX_SAVED_GRAPHS; i++) {
+      await store.create('alice', input(`Graph ${i}`));
+    }
+    await expect(store.create('alice', input('One too many'))).rejects.toBeInstanceOf(SavedGraphLimitError);
+    await expect(store.create('bob', input('Fine'))).resolves.toMatchObject({ name: 'Fine' });
+  });
+
+  it("doesn't lose concurrent changes", async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.create('alice', input(`Graph ${i}`))));
+    expect(await store.list('alice')).toHaveLength(10);
+  });
+});
+
+describe('parseSavedGraphInput', () => {
+  it('trims the name, keeps only known artist fields and fills in default filters', () => {
+    const parsed = parseSavedGraphInput({
+      name: '  Mix  ',
+      artists: [{ id: 'nova', name: 'Nova Vale', popularity: 70, genres: ['pop'] }],
+    }, { partial: false });
+    expect(parsed).toEqual({
+      name: 'Mix',
+      artists: [{ id: 'nova', name: 'Nova Vale', images: undefined, popularity: 70 }],
+      filters: { strategy, versions, collaborationsOnly: false, separateRemixers: false, order },
+      playlistIds: [],
+    });
+  });
+
+  it('only validates the given fields of a partial update', () => {
+    expect(parseSavedGraphInput({ name: 'Renamed' }, { partial: true })).toEqual({ name: 'Renamed' });
+  });
+
+  it.each([
+    [null, 'Invalid request body'],
+    [{ ...input('Mix'), name: ' ' }, 'name must be between 1 and 100 characters'],
+    [{ ...input('Mix'), artists: [] }, 'artists must be an array of 1 to'],
+    [{ ...input('Mix'), filters: { strategy: 'guess' } }, 'filters.strategy must be "search" or "discography"'],
+    [{ ...input('Mix'), filters: { order: 'shuffle' } }, 'filters.order must be a playlist order'],
+    [{ ...input('Mix'), playlistIds: [''] }, 'playlistIds must be an array of up to 50 playlist IDs'],
+  ])('rejects %j', (body, message) => {
+    expect(() => parseSavedGraphInput(body, { partial: false })).toThrow(ValidationError);
+    expect(() => parseSavedGraphInput(body, { partial: false })).toThrow(message);
+  });
+});
@@ -0,0 +1,201 @@
+// lib/savedGraphs.ts
+// Named graphs saved per Spotify user: the graphed artists (seed first), the filters they were
+// explored with, and the playlists created from them. Songs aren't stored; opening a saved
+// graph fetches them again. Kept in a pluggable store that reuses the track cache backends
+// (file by default, or in-memory), one entry per user.
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { ValidationError } from './apiErrors';
+import { isGraphDefinition, type GraphArtist } from './graph';
+import { DEFAULT_GRAPH_URL_STATE, MAX_URL_ARTISTS, type GraphFilters } from './graphUrlState';
+import { isPlaylistOrder } from './playlistOrder';
+import { FileCacheStore, MemoryCacheStore, type CacheStore } from './trackCache';
+import { isTrackVersionType } from './trackVersions';
+
+export const MAX_SAVED_GRAPHS = 100; // Per user
+const MAX_NAME_LENGTH = 100;
+const MAX_PLAYLIST_IDS = 50;
+const NEVER_EXPIRES = Number.MAX_SAFE_INTEGER;
+
+export type SavedGraphFilters = GraphFilters;
+
+export interface SavedGraph {
+  id: string;
+  name: string;
+  artists: GraphArtist[]; // Seed first
+  filters: SavedGraphFilters;
+  playlistIds: string[];  // Playlists created or synced from this graph
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SavedGraphInput = Pick<SavedGraph, 'name' | 'artists' | 'filters' | 'playlistIds'>;
+
+export class SavedGraphLimitError extends ValidationError {
+  constructor() {
+    super(`You can save up to ${MAX_SAVED_GRAPHS} graphs. Delete some to save more.`);
+    this.name = 'SavedGraphLimitError';
+  }
+}
+
+export class SavedGraphStore {
+  // Read-modify-write of a user's graphs, chained per user so concurrent requests don't lose updates
+  private pendingWrites = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly store: CacheStore) {}
+
+  static key(userId: string): string {
+    return `saved-graphs:${userId}`;
+  }
+
+  // The user's graphs, most recently updated first
+  async list(userId: string): Promise<SavedGraph[]> {
+    const entry = await this.store.get<SavedGraph[]>(SavedGraphStore.key(userId));
+    return [...(entry?.value ?? [])].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(userId: string, graphId: string): Promise<SavedGraph | null> {
+    return (await this.list(userId)).find(graph => graph.id === graphId) ?? null;
+  }
+
+  create(userId: string, input: SavedGraphInput): Promise<SavedGraph> {
+    return this.modify(userId, graphs => {
+      if (graphs.length >= MAX_SAVED_GRAPHS) throw new SavedGraphLimitError();
+      const now = Date.now();
+      const graph: SavedGraph = { id: randomBytes(9).toString('base64url'), ...input, createdAt: now, updatedAt: now };
+      return { graphs: [...graphs, graph], result: graph };
+    });
+  }
+
+  // Returns null if the user has no graph with this ID
+  update(userId: string, graphId: string, changes: Partial<SavedGraphInput>): Promise<SavedGraph | null> {
+    return this.modify(userId, graphs => {
+      const existing = graphs.find(graph => graph.id === graphId);
+      if (!existing) return { graphs, result: null };
+      const updated: SavedGraph = { ...existing, ...changes, updatedAt: Date.now() };
+      return { graphs: graphs.map(graph => (graph === existing ? updated : graph)), result: updated };
+    });
+  }
+
+  async duplicate(userId: string, graphId: string, name?: string): Promise<SavedGraph | null> {
+    const original = await this.get(userId, graphId);
+    if (!original) return null;
+    // The copy starts without playlists: syncing it would otherwise edit the original's playlist
+    return this.create(userId, {
+      name: name ?? copyName(original.name),
+      artists: original.artists,
+      filters: original.filters,
+      playlistIds: [],
+    });
+  }
+
+  delete(userId: string, graphId: string): Promise<boolean> {
+    return this.modify(userId, graphs => {
+      const remaining = graphs.filter(graph => graph.id !== graphId);
+      return { graphs: remaining, result: remaining.length < graphs.length };
+    });
+  }
+
+  private modify<T>(userId: string, change: (graphs: SavedGraph[]) => { graphs: SavedGraph[]; result: T }): Promise<T> {
+    const key = SavedGraphStore.key(userId);
+    const run = async () => {
+      const graphs = (await this.store.get<SavedGraph[]>(key))?.value ?? [];
+      const { graphs: next, result } = change(graphs);
+      if (next !== graphs) {
+        await this.store.set<SavedGraph[]>(key, { value: next, storedAt: Date.now(), expiresAt: NEVER_EXPIRES });
+      }
+      return result;
+    };
+    const previous = this.pendingWrites.get(userId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(run);
+    this.pendingWrites.set(userId, next);
+    next.finally(() => {
+      if (this.pendingWrites.get(userId) === next) this.pendingWrites.delete(userId);
+    }).catch(() => undefined);
+    return next;
+  }
+}
+
+function copyName(name: string): string {
+  return `${name} (copy)`.slice(0, MAX_NAME_LENGTH);
+}
+
+// Route handlers may be bundled separately, each with its own copy of this module, so the
+// shared store is kept on globalThis
+const savedGraphGlobals = globalThis as typeof globalThis & { __savedGraphStore?: SavedGraphStore | null };
+
+// Shared store, configured from environment variables:
+// SAVED_GRAPHS_STORE=file|memory, SAVED_GRAPHS_DIR
+export function getSavedGraphStore(): SavedGraphStore {
+  if (!savedGraphGlobals.__savedGraphStore) {
+    const store = process.env.SAVED_GRAPHS_STORE === 'memory'
+      ? new MemoryCacheStore()
+      : new FileCacheStore(process.env.SAVED_GRAPHS_DIR || path.join(process.cwd(), '.cache', 'saved-graphs'));
+    savedGraphGlobals.__savedGraphStore = new SavedGraphStore(store);
+  }
+  return savedGraphGlobals.__savedGraphStore;
+}
+
+// Replaces the shared store (e.g. with another backend); pass null to reset to env config
+export function setSavedGraphStore(store: SavedGraphStore | null): void {
+  savedGraphGlobals.__savedGraphStore = store;
+}
+
+// --- Request validation ---
+
+// Validates the fields of a create (all but filters/playlistIds required) or update (all
+// optional) request body. Missing filters take their default value.
+export function parseSavedGraphInput(body: unknown, { partial }: { partial: boolean }): Partial<SavedGraphInput> {
+  if (!body || typeof body !== 'object') throw new ValidationError('Invalid request body');
+  const { name, artists, filters, playlistIds } = body as Record<string, unknown>;
+  const input: Partial<SavedGraphInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`name must be between 1 and ${MAX_NAME_LENGTH} characters`);
+    }
+    input.name = name.trim();
+  }
+  if (artists !== undefined || !partial) {
+    if (!isGraphDefinition({ artists, songs: [] }) || (artists as GraphArtist[]).length === 0 || (artists as GraphArtist[]).length > MAX_URL_ARTISTS) {
+      throw new ValidationError(`artists must be an array of 1 to ${MAX_URL_ARTISTS} artists ({ id, name })`);
+    }
+    input.artists = (artists as GraphArtist[]).map(({ id, name, images, popularity }) => ({ id, name, images, popularity }));
+  }
+  if (filters !== undefined || !partial) {
+    input.filters = parseFilters(filters ?? {});
+  }
+  if (playlistIds !== undefined || !partial) {
+    const ids = playlistIds ?? [];
+    if (!Array.isArray(ids) || ids.length > MAX_PLAYLIST_IDS || !ids.every(id => typeof id === 'string' && id)) {
+      throw new ValidationError(`playlistIds must be an array of up to ${MAX_PLAYLIST_IDS} playlist IDs`);
+    }
+    input.playlistIds = Array.from(new Set(ids as string[]));
+  }
+  return input;
+}
+
+function parseFilters(value: unknown): SavedGraphFilters {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ValidationError('filters must be an object');
+  const {
+    strategy = DEFAULT_GRAPH_URL_STATE.strategy,
+    versions = DEFAULT_GRAPH_URL_STATE.versions,
+    collaborationsOnly = false,
+    separateRemixers = false,
+    order = DEFAULT_GRAPH_URL_STATE.order,
+  } = value as Partial<Record<keyof SavedGraphFilters, unknown>>;
+
+  if (strategy !== 'search' && strategy !== 'discography') {
+    throw new ValidationError('filters.strategy must be "search" or "discography"');
+  }
+  if (!Array.isArray(versions) || !versions.every(isTrackVersionType)) {
+    throw new ValidationError('filters.versions must be an array of version types');
+  }
+  if (typeof collaborationsOnly !== 'boolean' || typeof separateRemixers !== 'boolean') {
+    throw new ValidationError('filters.collaborationsOnly and filters.separateRemixers must be booleans');
+  }
+  if (!isPlaylistOrder(order)) {
+    throw new ValidationError('filters.order must be a playlist order');
+  }
+  return { strategy, versions: Array.from(new Set(versions)), collaborationsOnly, separateRemixers, order };
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decryptSessionCookie, encryptSessionCookie, sessionDataFromTokens, SessionManager } from './session';
+import { MemoryCacheStore } from './trackCache';
+
+describe('session cookie encryption', () => {
+  beforeEach(() => {
+    vi.stubEnv('COOKIE_SECRET', 'first secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips the session ID', () => {
+    const cookie = encryptSessionCookie('session-1');
+    expect(cookie).not.toContain('session-1');
+    expect(decryptSessionCookie(cookie)).toBe('session-1');
+  });
+
+  it('uses a fresh IV for every cookie', () => {
+    expect(encryptSessionCookie('session-1')).not.toBe(encryptSessionCookie('session-1'));
+  });
+
+  it('rejects tampered cookies', () => {
+    const raw = Buffer.from(encryptSessionCookie('session-1'), 'base64url');
+    raw[raw.length - 1] ^= 1;
+    expect(decryptSessionCookie(raw.toString('base64url'))).toBeNull();
+    expect(decryptSessionCookie('not a cookie')).toBeNull();
+    expect(decryptSessionCookie('')).toBeNull();
+  });
+
+  it('rejects cookies encrypted with another secret', () => {
+    const cookie = encryptSessionCookie('session-1');
+    vi.stubEnv('COOKIE_SECRET', 'second secret');
+    expect(decryptSessionCookie(cookie)).toBeNull();
+  });
+});
+
+describe('SessionManager', () => {
+  const data = { accessToken: 'access', refreshToken: 'refresh', accessTokenExpiresAt: 0, scopes: ['user-read-email'] };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores sessions under random IDs', async () => {
+    const manager = new SessionManager(new MemoryCacheStore(), { ttlSeconds: 60 });
+    const session = await manager.create(data);
+    expect(session.id).toMatch(/^[\w-]{43}$/);
+    expect((await manager.create(data)).id).not.toBe(session.id);
+    expect(await manager.get(session.id)).toEqual(session);
+  });
+
+  it('expires sessions after the TTL and extends it on save', async () => {
+    const store = new MemoryCacheStore();
+    const manager = new SessionManager(store, { ttlSeconds: 60 });
+    const session = await manager.create(data);
+
+    vi.advanceTimersByTime(50_000);
+    await manager.save(session);
+    vi.advanceTimersByTime(50_000);
+    expect(await manager.get(session.id)).toMatchObject({ id: session.id, updatedAt: session.createdAt + 50_000 });
+
+    vi.advanceTimersByTime(10_000);
+    expect(await manager.get(session.id)).toBeNull();
+    expect(await store.get(SessionManager.key(session.id))).toBeNull();
+  });
+
+  it('destroys sessions', async () => {
+    const manager = new SessionManager(new MemoryCacheStore(), { ttlSeconds: 60 });
+    const session = await manager.create(data);
+    expect(await manager.destroy(session.id)).toBe(true);
+    expect(await manager.get(session.id)).toBeNull();
+  });
+});
+
+describe('sessionDataFromTokens', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the previous refresh token and scopes when the response omits them', () => {
+    const tokens = { access_token: 'new', token_type: 'Bearer', expires_in: 3600 };
+    expect(sessionDataFromTokens(tokens, { refreshToken: 'old', scopes: ['a'] })).toEqual({
+      accessToken: 'new',
+      refreshToken: 'old',
+      accessTokenExpiresAt: Date.now() + 3_600_000,
+      scopes: ['a'],
+    });
+    expect(sessionDataFromTokens({ ...tokens, refresh_token: 'rotated', scope: 'a b' })).toMatchObject({ refreshToken: 'rotated', scopes: ['a', 'b'] });
+  });
+});
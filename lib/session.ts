@@ -0,0 +1,190 @@
+// lib/session.ts
+// Server-side sessions for logged-in Spotify users. The browser only holds an opaque session
+// cookie (the session ID, encrypted with COOKIE_SECRET); tokens, expiry and scopes live in a
+// pluggable store that reuses the track cache backends (file by default, or in-memory).
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { cookies } from 'next/headers';
+import { FileCacheStore, MemoryCacheStore, type CacheStore } from './trackCache';
+import type { SpotifyTokenResponse } from './spotifyTypes';
+
+export const SESSION_COOKIE_NAME = 'spotify_session';
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 30 * 24 * 60 * 60;
+
+export interface SessionData {
+  accessToken: string;
+  refreshToken?: string;
+  accessTokenExpiresAt: number; // ms since epoch
+  scopes: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Session extends SessionData {
+  id: string;
+}
+
+export interface SessionManagerOptions {
+  ttlSeconds: number; // How long a session lives without being updated
+}
+
+export class SessionManager {
+  constructor(
+    private readonly store: CacheStore,
+    private readonly options: SessionManagerOptions
+  ) {}
+
+  static key(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  async get(sessionId: string): Promise<Session | null> {
+    const entry = await this.store.get<SessionData>(SessionManager.key(sessionId));
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await this.store.delete(SessionManager.key(sessionId));
+      return null;
+    }
+    return { id: sessionId, ...entry.value };
+  }
+
+  async create(data: Omit<SessionData, 'createdAt' | 'updatedAt'>): Promise<Session> {
+    const now = Date.now();
+    const session: Session = { id: randomBytes(32).toString('base64url'), ...data, createdAt: now, updatedAt: now };
+    await this.save(session);
+    return session;
+  }
+
+  // Persists the session and extends its lifetime
+  async save(session: Session): Promise<void> {
+    const { id, ...data } = session;
+    const now = Date.now();
+    await this.store.set<SessionData>(SessionManager.key(id), {
+      value: { ...data, updatedAt: now },
+      storedAt: now,
+      expiresAt: now + this.options.ttlSeconds * 1000,
+    });
+  }
+
+  async destroy(sessionId: string): Promise<boolean> {
+    return this.store.delete(SessionManager.key(sessionId));
+  }
+}
+
+// Route handlers may be bundled separately, each with its own copy of this module, so the
+// shared manager and the development cookie secret are kept on globalThis
+const sessionGlobals = globalThis as typeof globalThis & {
+  __sessionManager?: SessionManager | null;
+  __sessionDevSecret?: string;
+};
+
+// Shared session manager, configured from environment variables:
+// SESSION_STORE=file|memory, SESSION_DIR, SESSION_TTL_SECONDS
+export function getSessionManager(): SessionManager {
+  if (!sessionGlobals.__sessionManager) {
+    const store = process.env.SESSION_STORE === 'memory'
+      ? new MemoryCacheStore()
+      : new FileCacheStore(process.env.SESSION_DIR || path.join(process.cwd(), '.cache', 'sessions'));
+    sessionGlobals.__sessionManager = new SessionManager(store, { ttlSeconds: SESSION_TTL_SECONDS });
+  }
+  return sessionGlobals.__sessionManager;
+}
+
+// Replaces the shared manager (e.g. to swap in another store); pass null to reset to env config
+export function setSessionManager(manager: SessionManager | null): void {
+  sessionGlobals.__sessionManager = manager;
+}
+
+// --- Cookie encryption (AES-256-GCM) ---
+
+function cookieKey(): Buffer {
+  let secret = process.env.COOKIE_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('COOKIE_SECRET must be set to encrypt session cookies.');
+    }
+    // Development fallback: sessions only survive until the server restarts
+    if (!sessionGlobals.__sessionDevSecret) {
+      console.warn('[Session] COOKIE_SECRET is not set; using a random per-process secret.');
+      sessionGlobals.__sessionDevSecret = randomBytes(32).toString('hex');
+    }
+    secret = sessionGlobals.__sessionDevSecret;
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSessionCookie(sessionId: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', cookieKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(sessionId, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+// Returns the session ID, or null if the cookie was tampered with or encrypted with another secret
+export function decryptSessionCookie(value: string): string | null {
+  try {
+    const raw = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', cookieKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+// --- Helpers for route handlers ---
+
+// Session data for a token response. Keeps the previous refresh token and scopes when
+// Spotify doesn't send new ones (refresh responses may omit them).
+export function sessionDataFromTokens(
+  tokens: SpotifyTokenResponse,
+  previous?: Pick<SessionData, 'refreshToken' | 'scopes'>
+): Pick<SessionData, 'accessToken' | 'refreshToken' | 'accessTokenExpiresAt' | 'scopes'> {
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || previous?.refreshToken,
+    accessTokenExpiresAt: Date.now() + tokens.expires_in * 1000,
+    scopes: tokens.scope ? tokens.scope.split(' ').filter(Boolean) : previous?.scopes ?? [],
+  };
+}
+
+// Loads the session referenced by the request's session cookie, if any
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!value) return null;
+  const sessionId = decryptSessionCookie(value);
+  return sessionId ? getSessionManager().get(sessionId) : null;
+}
+
+// Starts a session for freshly issued tokens and sets the session cookie
+export async function createSession(tokens: SpotifyTokenResponse): Promise<Session> {
+  const session = await getSessionManager().create(sessionDataFromTokens(tokens));
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, encryptSessionCookie(session.id), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production', // Use secure cookies in production
+    maxAge: SESSION_TTL_SECONDS,
+    path: '/',
+    sameSite: 'lax',
+  });
+  return session;
+}
+
+// Stores refreshed tokens in the session (including a rotated refresh token, if any)
+export async function updateSessionTokens(session: Session, tokens: SpotifyTokenResponse): Promise<Session> {
+  const updated: Session = { ...session, ...sessionDataFromTokens(tokens, session) };
+  await getSessionManager().save(updated);
+  return updated;
+}
+
+// Deletes the current session (if any) and clears the session cookie
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const sessionId = value ? decryptSessionCookie(value) : null;
+  if (sessionId) {
+    await getSessionManager().destroy(sessionId);
+  }
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
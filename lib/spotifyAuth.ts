@@ -1,176 +1,65 @@
-import { Buffer } from 'buffer'; // Import Buffer for Node.js environment if needed, or rely on browser Buffer
+// lib/spotifyAuth.ts
+// PKCE and CSRF state helpers for the server-initiated Spotify login (see /api/auth/login).
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 
-// Function to generate a random string for the code verifier
-export const generateRandomString = (length: number): string => {
-  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let text = '';
-  for (let i = 0; i < length; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return text;
-};
+// Short-lived httpOnly cookies that carry the login attempt to the callback
+export const CODE_VERIFIER_COOKIE = 'spotify_code_verifier';
+export const AUTH_STATE_COOKIE = 'spotify_auth_state';
+export const AUTH_COOKIE_MAX_AGE_SECONDS = 5 * 60;
 
-// Function to compute SHA256 hash
-export const sha256 = async (plain: string): Promise<ArrayBuffer> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(plain);
-  // Check if running in a browser environment that supports SubtleCrypto
-  if (typeof window !== 'undefined' && window.crypto?.subtle) {
-    return window.crypto.subtle.digest('SHA-256', data);
-  }
-  // If not in a browser or SubtleCrypto is not supported, throw an error
-  // because this function is crucial for the client-side PKCE flow.
-  throw new Error('Crypto module not available in this environment. This function requires a browser environment with Web Crypto API support.');
-};
+// Scopes requested on every login; optional ones are requested incrementally when a feature needs them
+export const SPOTIFY_LOGIN_SCOPES = ['user-read-private', 'user-read-email', 'playlist-modify-private'];
+export const SPOTIFY_OPTIONAL_SCOPES = ['playlist-modify-public', 'playlist-read-private'];
 
-// Function to base64 encode the hash in a URL-safe way
-export const base64encode = (input: ArrayBuffer): string => {
-  // Use Buffer for Node.js environment if needed
-  if (typeof window === 'undefined') {
-    return Buffer.from(input)
-      .toString('base64')
-      .replace(/=/g, '')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_');
-  } else {
-    // Browser environment
-    // Convert ArrayBuffer to string using Uint8Array
-    const bytes = new Uint8Array(input);
-    let binary = '';
-    bytes.forEach((byte) => {
-      binary += String.fromCharCode(byte);
-    });
-    return btoa(binary)
-        .replace(/=/g, '')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_');
-  }
-};
+export type AppFeatureId = 'profile' | 'private_playlists' | 'public_playlists' | 'sync_playlists';
 
-// Function to request the access token
-export const getToken = async (code: string, codeVerifier: string, clientId: string, redirectUri: string): Promise<any> => {
-  const url = "https://accounts.spotify.com/api/token";
-
-  const payload = {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      client_id: clientId,
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: redirectUri,
-      code_verifier: codeVerifier,
-    }),
-  };
-
-  try {
-    const body = await fetch(url, payload);
-    if (!body.ok) {
-      console.error("Error fetching token:", body.status, await body.text());
-      throw new Error(`Failed to fetch token: ${body.status}`);
-    }
-    const response = await body.json();
-    return response;
-  } catch (error) {
-    console.error("Error in getToken:", error);
-    throw error; // Re-throw the error to be handled by the caller
-  }
-};
-
-// Structure for the expected token response
-interface SpotifyTokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  refresh_token?: string; // Might not be included in refresh response
-  scope: string;
+export interface AppFeature {
+  id: AppFeatureId;
+  label: string;
+  scopes: string[]; // All of these must be granted
 }
 
-// Function to refresh the access token using the refresh token
-export const refreshAccessToken = async (refreshToken: string, clientId: string): Promise<SpotifyTokenResponse | null> => {
-    const url = "https://accounts.spotify.com/api/token";
-    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET; // <-- Need the client secret
+// App features that depend on user scopes
+export const APP_FEATURES: AppFeature[] = [
+  { id: 'profile', label: 'Show your Spotify profile and country', scopes: ['user-read-private'] },
+  { id: 'private_playlists', label: 'Create private playlists', scopes: ['playlist-modify-private'] },
+  { id: 'public_playlists', label: 'Create public playlists', scopes: ['playlist-modify-public'] },
+  // Reading back the playlist's current tracks needs the read scope for private playlists
+  { id: 'sync_playlists', label: 'Update existing playlists', scopes: ['playlist-read-private', 'playlist-modify-private'] },
+];
 
-    if (!clientSecret) {
-        console.error("Missing SPOTIFY_CLIENT_SECRET for token refresh.");
-        // Cannot proceed without client secret for Basic Auth
-        return null;
-    }
+export function isKnownScope(scope: string): boolean {
+  return SPOTIFY_LOGIN_SCOPES.includes(scope) || SPOTIFY_OPTIONAL_SCOPES.includes(scope);
+}
 
-    // Encode Client ID and Secret for Basic Authentication
-    const authHeader = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+// Features that can't be used with the granted scopes, and the scopes each is missing
+export function unavailableFeatures(grantedScopes: string[]): (AppFeature & { missingScopes: string[] })[] {
+  const granted = new Set(grantedScopes);
+  return APP_FEATURES
+    .map(feature => ({ ...feature, missingScopes: feature.scopes.filter(scope => !granted.has(scope)) }))
+    .filter(feature => feature.missingScopes.length > 0);
+}
 
-    const payload = {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Authorization': `Basic ${authHeader}` // <-- Add Basic Auth header
-        },
-        body: new URLSearchParams({
-            grant_type: 'refresh_token',
-            refresh_token: refreshToken,
-            // client_id is not needed in the body when using Basic Auth
-        }),
-    };
+// 64 random bytes -> 86 URL-safe characters (RFC 7636 allows 43-128)
+export function generateCodeVerifier(): string {
+  return randomBytes(64).toString('base64url');
+}
 
-    try {
-        const response = await fetch(url, payload);
-        if (!response.ok) {
-            const errorBody = await response.text();
-            console.error("Error refreshing token:", response.status, errorBody);
-            // If refresh fails (e.g., invalid refresh token), return null to indicate failure
-            if (response.status === 400 || response.status === 401) {
-                 console.error("Refresh token might be invalid or revoked.");
-                 return null;
-            }
-            throw new Error(`Failed to refresh token: ${response.status}`);
-        }
-        const tokenData: SpotifyTokenResponse = await response.json();
-        console.log("Successfully refreshed access token.");
-        // Note: Spotify may or may not return a new refresh_token.
-        // If it does, you should ideally update the stored refresh_token.
-        // However, for simplicity here, we'll assume the original refresh token remains valid.
-        return tokenData;
-    } catch (error) {
-        console.error("Error in refreshAccessToken:", error);
-        // Return null or rethrow based on desired handling
-        return null;
-    }
-};
+export function generateState(): string {
+  return randomBytes(24).toString('base64url');
+}
 
-// Function to fetch user profile data
-export const getUserProfile = async (accessToken: string): Promise<any> => {
-  const url = "https://api.spotify.com/v1/me";
+// S256 code challenge: base64url(sha256(verifier))
+export function codeChallengeFor(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
 
-  const payload = {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-    },
-  };
+// Constant-time comparison of the state returned by Spotify with the one in the cookie
+export function statesMatch(received: string | null | undefined, stored: string | null | undefined): boolean {
+  if (!received || !stored) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(stored);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
 
-  try {
-    const response = await fetch(url, payload);
-    if (!response.ok) {
-      // If token is invalid (401) or other error, parse body and throw formatted error
-      const errorBody = await response.text();
-      console.error("Error fetching user profile:", response.status, errorBody);
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson.error?.message) {
-            // Mimic format from lib/spotify.ts for consistency
-            throw new Error(`Spotify API Error: ${errorJson.error.message} (Status: ${response.status})`);
-        }
-      } catch (parseError) { /* Ignore if parsing fails */ }
-      // Fallback generic error
-      throw new Error(`Spotify API request failed with status ${response.status}`);
-    }
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Error in getUserProfile:", error);
-    throw error; // Re-throw the error
-  }
-};
\ No newline at end of file
+// Token exchange, refresh and profile requests live on SpotifyClient (lib/spotifyClient.ts).
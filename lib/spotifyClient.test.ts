@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitError, UpstreamError } from './apiErrors';
+import { SpotifyClient } from './spotifyClient';
+
+function clientWith(fetchImpl: () => Promise<Response>) {
+  const fetchMock = vi.fn(fetchImpl);
+  const client = new SpotifyClient({
+    mode: 'app',
+    clientId: 'id',
+    clientSecret: 'secret',
+    accountsBaseUrl: 'http://accounts.test/',
+    fetch: fetchMock as unknown as typeof fetch,
+  });
+  return { client, fetchMock };
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  async () => new Response(JSON.stringify(body), { status, headers });
+
+describe('SpotifyClient.refreshAccessToken', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // No backoff delay between retries
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the new tokens', async () => {
+    const { client } = clientWith(json(200, { access_token: 'new', refresh_token: 'rotated', expires_in: 3600 }));
+    expect(await client.refreshAccessToken('refresh')).toMatchObject({ access_token: 'new', refresh_token: 'rotated' });
+  });
+
+  it('returns null when the refresh token is rejected', async () => {
+    const { client, fetchMock } = clientWith(json(400, { error: 'invalid_grant', error_description: 'Refresh token revoked' }));
+    expect(await client.refreshAccessToken('refresh')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws an upstream error for other client errors', async () => {
+    const { client } = clientWith(json(401, { error: 'invalid_client' }));
+    await expect(client.refreshAccessToken('refresh')).rejects.toBeInstanceOf(UpstreamError);
+  });
+
+  it('retries server errors, then throws an upstream error', async () => {
+    const { client, fetchMock } = clientWith(json(503, {}));
+    await expect(client.refreshAccessToken('refresh')).rejects.toMatchObject({ name: 'UpstreamError', upstreamStatus: 503 });
+    expect(fetchMock.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it('recovers when a retry succeeds', async () => {
+    let calls = 0;
+    const { client } = clientWith(() => (calls++ === 0 ? json(502, {})() : json(200, { access_token: 'new', expires_in: 3600 })()));
+    expect(await client.refreshAccessToken('refresh')).toMatchObject({ access_token: 'new' });
+    expect(calls).toBe(2);
+  });
+
+  it('throws a rate limit error when Spotify keeps answering 429', async () => {
+    const { client } = clientWith(json(429, {}, { 'Retry-After': '0' }));
+    await expect(client.refreshAccessToken('refresh')).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('throws an upstream error when Spotify is unreachable', async () => {
+    const { client } = clientWith(async () => { throw new TypeError('fetch failed'); });
+    await expect(client.refreshAccessToken('refresh')).rejects.toThrow('Failed to refresh Spotify token: fetch failed');
+  });
+});
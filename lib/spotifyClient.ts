@@ -0,0 +1,505 @@
+// lib/spotifyClient.ts
+// Typed Spotify Web API client used by every route.
+// - 'app' mode authenticates with the client credentials flow (token shared across instances)
+// - 'user' mode uses a user's access token from the authorization code flow
+// Base URLs and the fetch implementation are configurable so the client can be pointed
+// at a stand-in server or given a stub fetch.
+import { Buffer } from 'buffer'; // Node.js Buffer
+import { executeSpotifyRequest, parseRetryAfter } from './requestExecutor';
+import { RateLimitError, UpstreamError, spotifyErrorFromResponse } from './apiErrors';
+import type {
+    SpotifyAlbumWithTracks,
+    SpotifyArtist,
+    SpotifyPagingObject,
+    SpotifyPlaylist,
+    SpotifyPlaylistTrackItem,
+    SpotifySearchResponse,
+    SpotifySearchType,
+    SpotifySimplifiedAlbum,
+    SpotifySnapshotResponse,
+    SpotifyTokenResponse,
+    SpotifyTrack,
+    SpotifyUserProfile,
+} from './spotifyTypes';
+
+export const DEFAULT_SPOTIFY_API_BASE_URL = 'https://api.spotify.com/v1/';
+export const DEFAULT_SPOTIFY_ACCOUNTS_BASE_URL = 'https://accounts.spotify.com/';
+
+export type SpotifyAuthMode = 'app' | 'user';
+
+export interface SpotifyClientOptions {
+    mode: SpotifyAuthMode;
+    clientId?: string;
+    clientSecret?: string;    // Needed for app mode and for refreshing user tokens
+    accessToken?: string;     // Required in user mode
+    // User mode: called once when a request is answered with 401. Returns a fresh access
+    // token to retry the request with, or null to fail it.
+    onUnauthorized?: () => Promise<string | null>;
+    apiBaseUrl?: string;
+    accountsBaseUrl?: string;
+    fetch?: typeof fetch;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// App tokens are cached per accounts URL + client ID, so every app-mode client reuses the same token
+const appTokenCache = new Map<string, { accessToken: string; expiresAt: number }>();
+const pendingAppTokens = new Map<string, Promise<string>>();
+
+// Ensures a base URL ends with a slash so relative endpoints resolve beneath it
+function withTrailingSlash(url: string): string {
+    return url.endsWith('/') ? url : `${url}/`;
+}
+
+export class SpotifyClient {
+    readonly mode: SpotifyAuthMode;
+    private readonly apiBaseUrl: string;
+    private readonly accountsBaseUrl: string;
+    private readonly fetchImpl: typeof fetch;
+    private readonly clientId?: string;
+    private readonly clientSecret?: string;
+    private userAccessToken?: string;
+    private readonly onUnauthorized?: () => Promise<string | null>;
+
+    constructor(options: SpotifyClientOptions) {
+        if (options.mode === 'user' && !options.accessToken) {
+            throw new Error("User Spotify access token is required for a user-mode client.");
+        }
+        this.mode = options.mode;
+        this.clientId = options.clientId;
+        this.clientSecret = options.clientSecret;
+        this.userAccessToken = options.accessToken;
+        this.onUnauthorized = options.onUnauthorized;
+        this.apiBaseUrl = withTrailingSlash(options.apiBaseUrl || DEFAULT_SPOTIFY_API_BASE_URL);
+        this.accountsBaseUrl = withTrailingSlash(options.accountsBaseUrl || DEFAULT_SPOTIFY_ACCOUNTS_BASE_URL);
+        // Bind so implementations that rely on `this` (e.g. the global fetch) keep working
+        this.fetchImpl = (options.fetch || fetch).bind(globalThis);
+    }
+
+    // --- Accounts service ---
+
+    private basicAuthHeader(): string {
+        if (!this.clientId || !this.clientSecret) {
+            throw new Error("Spotify Client ID or Secret not configured in environment variables.");
+        }
+        return `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+    }
+
+    private async requestToken(body: URLSearchParams, authorization?: string): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+        if (authorization) {
+            headers['Authorization'] = authorization;
+        }
+        return this.fetchImpl(new URL('api/token', this.accountsBaseUrl).toString(), {
+            method: 'POST',
+            headers,
+            body,
+            cache: 'no-store', // Ensure fresh token fetch
+        });
+    }
+
+    // Client credentials token for app mode, cached until shortly before it expires
+    private async getAppAccessToken(): Promise<string> {
+        const cacheKey = `${this.accountsBaseUrl}|${this.clientId}`;
+        const cached = appTokenCache.get(cacheKey);
+        if (cached && Date.now() < cached.expiresAt) {
+            return cached.accessToken;
+        }
+
+        // Coalesce concurrent refreshes into a single token request
+        const pending = pendingAppTokens.get(cacheKey);
+        if (pending) {
+            return pending;
+        }
+
+        const tokenPromise = (async () => {
+            console.log("Fetching new Spotify access token...");
+            try {
+                const response = await this.requestToken(
+                    new URLSearchParams({ grant_type: 'client_credentials' }),
+                    this.basicAuthHeader()
+                );
+                if (!response.ok) {
+                    const errorBody = await response.text();
+                    console.error("Spotify token request failed:", response.status, errorBody);
+                    throw new Error(`Spotify token request failed with status ${response.status}`);
+                }
+                const data = (await response.json()) as SpotifyTokenResponse;
+                if (!data.access_token || !data.expires_in) {
+                    console.error("Error: Could not retrieve access token from Spotify response.", data);
+                    throw new Error("Invalid token response received from Spotify.");
+                }
+                appTokenCache.set(cacheKey, {
+                    accessToken: data.access_token,
+                    expiresAt: Date.now() + (data.expires_in - 60) * 1000, // 60s buffer
+                });
+                console.log(`Successfully retrieved Spotify access token. Expires in approx ${data.expires_in} seconds.`);
+                return data.access_token;
+            } catch (error: unknown) {
+                appTokenCache.delete(cacheKey);
+                const message = error instanceof Error ? error.message : String(error);
+                throw new UpstreamError(`Failed to fetch Spotify token: ${message}`);
+            } finally {
+                pendingAppTokens.delete(cacheKey);
+            }
+        })();
+        pendingAppTokens.set(cacheKey, tokenPromise);
+        return tokenPromise;
+    }
+
+    /**
+     * Builds the accounts service authorize URL for the authorization code flow with PKCE.
+     */
+    getAuthorizeUrl(params: { redirectUri: string; scopes: string[]; codeChallenge: string; state: string }): string {
+        if (!this.clientId) {
+            throw new Error("Spotify Client ID not configured in environment variables.");
+        }
+        const url = new URL('authorize', this.accountsBaseUrl);
+        url.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.clientId,
+            scope: params.scopes.join(' '),
+            code_challenge_method: 'S256',
+            code_challenge: params.codeChallenge,
+            redirect_uri: params.redirectUri,
+            state: params.state,
+        }).toString();
+        return url.toString();
+    }
+
+    /**
+     * Exchanges an authorization code (PKCE flow) for user tokens.
+     */
+    async exchangeAuthorizationCode(code: string, codeVerifier: string, redirectUri: string): Promise<SpotifyTokenResponse> {
+        if (!this.clientId) {
+            throw new Error("Spotify Client ID not configured in environment variables.");
+        }
+        const response = await this.requestToken(new URLSearchParams({
+            client_id: this.clientId,
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri,
+            code_verifier: codeVerifier,
+        }));
+        if (!response.ok) {
+            console.error("Error fetching token:", response.status, await response.text());
+            throw new Error(`Failed to fetch token: ${response.status}`);
+        }
+        return (await response.json()) as SpotifyTokenResponse;
+    }
+
+    /**
+     * Refreshes a user access token. Returns null if Spotify rejects the refresh token as invalid
+     * or revoked (`invalid_grant`). Other failures (network errors, 5xx, 429) are retried by the
+     * request executor and then thrown as UpstreamError/RateLimitError, so callers can keep the session.
+     * Note: Spotify may return a new (rotated) refresh_token in the response.
+     */
+    async refreshAccessToken(refreshToken: string): Promise<SpotifyTokenResponse | null> {
+        const authorization = this.basicAuthHeader();
+        let response: Response;
+        try {
+            response = await executeSpotifyRequest(
+                () => this.requestToken(new URLSearchParams({ grant_type: 'refresh_token', refresh_token: refreshToken }), authorization),
+                'POST api/token (refresh)'
+            );
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new UpstreamError(`Failed to refresh Spotify token: ${message}`);
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error("Error refreshing token:", response.status, errorBody);
+            let oauthError: string | undefined;
+            try {
+                oauthError = JSON.parse(errorBody).error;
+            } catch { /* Ignore if parsing fails */ }
+            if ((response.status === 400 || response.status === 401) && oauthError === 'invalid_grant') {
+                console.error("Refresh token is invalid or revoked.");
+                return null;
+            }
+            if (response.status === 429) {
+                const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                const retryAfter = retryAfterMs === null ? null : Math.ceil(retryAfterMs / 1000);
+                throw new RateLimitError('Spotify rate limited the token refresh', retryAfter, { upstreamStatus: 429 });
+            }
+            throw new UpstreamError(`Failed to refresh Spotify token: ${response.status}${oauthError ? ` (${oauthError})` : ''}`, { upstreamStatus: response.status });
+        }
+        console.log("Successfully refreshed access token.");
+        return (await response.json()) as SpotifyTokenResponse;
+    }
+
+    // --- Web API ---
+
+    // Generic authenticated request. `endpoint` is relative to the API base URL,
+    // or an absolute URL (e.g. a paging object's `next` link).
+    async request<T>(
+        method: HttpMethod,
+        endpoint: string,
+        { params, body }: { params?: QueryParams; body?: unknown } = {}
+    ): Promise<T> {
+        let token = this.mode === 'user' ? this.userAccessToken! : await this.getAppAccessToken();
+        const url = new URL(endpoint, this.apiBaseUrl);
+        if (params) {
+            Object.entries(params).forEach(([key, value]) => {
+                if (value !== undefined) url.searchParams.append(key, String(value));
+            });
+        }
+
+        const headers: Record<string, string> = {};
+        const init: RequestInit = { method, cache: 'no-store' };
+        if (body !== undefined && body !== null) {
+            headers['Content-Type'] = 'application/json';
+            init.body = JSON.stringify(body);
+        }
+
+        // Goes through the shared executor: retries 429/5xx, caps concurrency, charges the request budget
+        const send = () => executeSpotifyRequest(
+            () => this.fetchImpl(url.toString(), { ...init, headers: { ...headers, 'Authorization': `Bearer ${token}` } }),
+            `${method} ${url.pathname}`
+        );
+        let response = await send();
+
+        // Expired or revoked user token: get a new one and retry once
+        if (response.status === 401 && this.mode === 'user' && this.onUnauthorized) {
+            const refreshedToken = await this.onUnauthorized();
+            if (refreshedToken) {
+                void response.body?.cancel().catch(() => undefined); // Not awaited: never settles for tee'd bodies
+                this.userAccessToken = token = refreshedToken;
+                response = await send();
+            }
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error(`Spotify API request failed: ${response.status} ${method} ${url.toString()}`, errorBody);
+            // Typed by status (auth, permission/scope, not found, rate limited, upstream), with Spotify's `reason`
+            throw spotifyErrorFromResponse(response.status, errorBody, parseRetryAfter(response.headers.get('Retry-After')));
+        }
+
+        // 204 No Content (and some 200/201 responses) have no body
+        const text = await response.text();
+        if (!text) {
+            return {} as T;
+        }
+        try {
+            return JSON.parse(text) as T;
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new UpstreamError(`Spotify API request succeeded (${response.status}), but failed to parse response body: ${message}`);
+        }
+    }
+
+    // Follows a paging object's `next` link; returns null on the last page
+    async getNextPage<T>(page: SpotifyPagingObject<T>): Promise<SpotifyPagingObject<T> | null> {
+        return page.next ? this.request<SpotifyPagingObject<T>>('GET', page.next) : null;
+    }
+
+    // Collects the items of every page starting from `firstPage`
+    async getAllPages<T>(firstPage: SpotifyPagingObject<T>): Promise<T[]> {
+        let items = [...firstPage.items];
+        let page = await this.getNextPage(firstPage);
+        while (page) {
+            items = items.concat(page.items);
+            page = await this.getNextPage(page);
+        }
+        return items;
+    }
+
+    search(query: string, type: SpotifySearchType, params: QueryParams = {}): Promise<SpotifySearchResponse> {
+        return this.request<SpotifySearchResponse>('GET', 'search', {
+            params: { q: query, type, limit: 50, ...params },
+        });
+    }
+
+    // Paginates through every result of a search (Spotify caps this at offset 1000)
+    async searchAll<K extends keyof SpotifySearchResponse>(
+        query: string,
+        type: SpotifySearchType,
+        params: QueryParams = {}
+    ): Promise<NonNullable<SpotifySearchResponse[K]>['items']> {
+        const searchKey = `${type}s` as K; // e.g., 'tracks', 'artists'
+        console.log(`Searching Spotify for ${type} with query "${query}", mode: all`);
+
+        const response = await this.search(query, type, params);
+        const firstPage = response[searchKey] as SpotifyPagingObject<unknown> | undefined;
+        if (!firstPage) {
+            console.warn(`No '${searchKey}' key found in search response for type '${type}'. Query: "${query}".`);
+            return [];
+        }
+
+        let allItems = [...firstPage.items];
+        let next = firstPage.next;
+        while (next) {
+            // Search paging links wrap the page in the same `{ tracks: ... }` envelope
+            const pageResponse: SpotifySearchResponse = await this.request<SpotifySearchResponse>('GET', next);
+            const page = pageResponse[searchKey] as SpotifyPagingObject<unknown> | undefined;
+            if (!page) break;
+            allItems = allItems.concat(page.items);
+            next = page.next;
+        }
+        console.log(`Finished fetching all ${type}. Total found: ${allItems.length}`);
+        return allItems as NonNullable<SpotifySearchResponse[K]>['items'];
+    }
+
+    getArtist(artistId: string): Promise<SpotifyArtist> {
+        return this.request<SpotifyArtist>('GET', `artists/${encodeURIComponent(artistId)}`);
+    }
+
+    // Up to 50 artists per call; unknown IDs come back as null
+    async getArtists(artistIds: string[]): Promise<(SpotifyArtist | null)[]> {
+        const { artists } = await this.request<{ artists: (SpotifyArtist | null)[] }>('GET', 'artists', {
+            params: { ids: artistIds.join(',') },
+        });
+        return artists;
+    }
+
+    getArtistAlbums(artistId: string, params: QueryParams = {}): Promise<SpotifyPagingObject<SpotifySimplifiedAlbum>> {
+        return this.request<SpotifyPagingObject<SpotifySimplifiedAlbum>>('GET', `artists/${encodeURIComponent(artistId)}/albums`, {
+            params: { limit: 50, ...params },
+        });
+    }
+
+    // Up to 20 albums per call; each includes the first page of its tracks
+    async getAlbums(albumIds: string[], params: QueryParams = {}): Promise<(SpotifyAlbumWithTracks | null)[]> {
+        const { albums } = await this.request<{ albums: (SpotifyAlbumWithTracks | null)[] }>('GET', 'albums', {
+            params: { ids: albumIds.join(','), ...params },
+        });
+        return albums;
+    }
+
+    // Up to 50 tracks per call. With a `market`, tracks unavailable there are relinked to a
+    // playable equivalent (with `linked_from` set) or marked `is_playable: false`.
+    async getTracks(trackIds: string[], params: QueryParams = {}): Promise<(SpotifyTrack | null)[]> {
+        const { tracks } = await this.request<{ tracks: (SpotifyTrack | null)[] }>('GET', 'tracks', {
+            params: { ids: trackIds.join(','), ...params },
+        });
+        return tracks;
+    }
+
+    /**
+     * Fetches the profile of the user the client is acting for.
+     * Requires the 'user-read-private' scope (and 'user-read-email' for email).
+     */
+    getCurrentUserProfile(): Promise<SpotifyUserProfile> {
+        console.log("(User Auth) Fetching user profile...");
+        return this.request<SpotifyUserProfile>('GET', 'me');
+    }
+
+    /**
+     * Creates a new playlist for a Spotify user.
+     * Requires the 'playlist-modify-public' or 'playlist-modify-private' scope.
+     */
+    createPlaylist(
+        userId: string,
+        details: { name: string; description?: string; public?: boolean; collaborative?: boolean }
+    ): Promise<SpotifyPlaylist> {
+        console.log(`(User Auth) Creating playlist "${details.name}" for user ${userId}...`);
+        return this.request<SpotifyPlaylist>('POST', `users/${encodeURIComponent(userId)}/playlists`, {
+            body: {
+                name: details.name,
+                description: details.description || '',
+                public: details.public !== undefined ? details.public : false, // Default to private
+                collaborative: details.collaborative || false,
+            },
+        });
+    }
+
+    /**
+     * Adds up to 100 tracks to a playlist (appended, or inserted at `position`); callers chunk larger lists.
+     * Requires the 'playlist-modify-public' or 'playlist-modify-private' scope.
+     */
+    addTracksToPlaylist(playlistId: string, trackUris: string[], position?: number): Promise<SpotifySnapshotResponse> {
+        if (trackUris.length > 100) {
+            console.warn("(User Auth) Attempting to add more than 100 tracks in a single request. Spotify may reject this.");
+        }
+        console.log(`(User Auth) Adding ${trackUris.length} tracks to playlist ${playlistId}...`);
+        return this.request<SpotifySnapshotResponse>('POST', `playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            body: { uris: trackUris, ...(position !== undefined ? { position } : {}) },
+        });
+    }
+
+    getPlaylist(playlistId: string): Promise<SpotifyPlaylist> {
+        return this.request<SpotifyPlaylist>('GET', `playlists/${encodeURIComponent(playlistId)}`, {
+            params: { fields: 'id,name,description,public,collaborative,owner,external_urls,href,uri,snapshot_id,tracks.total,tracks.href' },
+        });
+    }
+
+    /**
+     * Playlists owned or followed by the current user, first page (up to 50).
+     * Private playlists are only included with the 'playlist-read-private' scope.
+     */
+    getCurrentUserPlaylists(params: QueryParams = {}): Promise<SpotifyPagingObject<SpotifyPlaylist>> {
+        return this.request<SpotifyPagingObject<SpotifyPlaylist>>('GET', 'me/playlists', {
+            params: { limit: 50, ...params },
+        });
+    }
+
+    // First page (up to 100) of a playlist's items; use getAllPages for the rest
+    getPlaylistTracks(playlistId: string, params: QueryParams = {}): Promise<SpotifyPagingObject<SpotifyPlaylistTrackItem>> {
+        return this.request<SpotifyPagingObject<SpotifyPlaylistTrackItem>>('GET', `playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            params: { limit: 100, fields: 'href,limit,next,offset,previous,total,items(added_at,track(uri))', ...params },
+        });
+    }
+
+    /**
+     * Removes every occurrence of up to 100 tracks from a playlist.
+     * Requires the 'playlist-modify-public' or 'playlist-modify-private' scope.
+     */
+    removeTracksFromPlaylist(playlistId: string, trackUris: string[], snapshotId?: string): Promise<SpotifySnapshotResponse> {
+        console.log(`(User Auth) Removing ${trackUris.length} tracks from playlist ${playlistId}...`);
+        return this.request<SpotifySnapshotResponse>('DELETE', `playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            body: { tracks: trackUris.map(uri => ({ uri })), ...(snapshotId ? { snapshot_id: snapshotId } : {}) },
+        });
+    }
+
+    /**
+     * Moves `rangeLength` items starting at `rangeStart` so they are placed before the item
+     * currently at `insertBefore` (indexes as they are before the move).
+     * Requires the 'playlist-modify-public' or 'playlist-modify-private' scope.
+     */
+    reorderPlaylistTracks(
+        playlistId: string,
+        move: { rangeStart: number; insertBefore: number; rangeLength?: number; snapshotId?: string }
+    ): Promise<SpotifySnapshotResponse> {
+        return this.request<SpotifySnapshotResponse>('PUT', `playlists/${encodeURIComponent(playlistId)}/tracks`, {
+            body: {
+                range_start: move.rangeStart,
+                insert_before: move.insertBefore,
+                range_length: move.rangeLength ?? 1,
+                ...(move.snapshotId ? { snapshot_id: move.snapshotId } : {}),
+            },
+        });
+    }
+}
+
+// --- Factories configured from environment variables ---
+
+function clientConfigFromEnv() {
+    return {
+        clientId: process.env.SPOTIFY_CLIENT_ID || process.env.NEXT_PUBLIC_SPOTIFY_CLIENT_ID,
+        clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+        // Point these at the mock server (mock/spotify-server.mjs) to run offline
+        apiBaseUrl: process.env.SPOTIFY_API_BASE_URL,
+        accountsBaseUrl: process.env.SPOTIFY_ACCOUNTS_BASE_URL,
+    };
+}
+
+let appClient: SpotifyClient | null = null;
+
+// Shared app-mode (client credentials) client for catalog lookups
+export function getAppSpotifyClient(): SpotifyClient {
+    if (!appClient) {
+        appClient = new SpotifyClient({ mode: 'app', ...clientConfigFromEnv() });
+    }
+    return appClient;
+}
+
+// Client acting on behalf of a logged-in user
+export function createUserSpotifyClient(
+    accessToken: string,
+    onUnauthorized?: () => Promise<string | null>
+): SpotifyClient {
+    return new SpotifyClient({ mode: 'user', accessToken, onUnauthorized, ...clientConfigFromEnv() });
+}
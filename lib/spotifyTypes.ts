@@ -0,0 +1,119 @@
+// lib/spotifyTypes.ts
+// Shared types for the subset of the Spotify Web API that the app uses.
+import type { TrackVersionType } from './trackVersions';
+
+// Simplified Spotify Track as used throughout the app
+export interface SpotifyTrack {
+  id: string;
+  name: string;
+  artists: { id: string; name: string }[];
+  album: {
+    name: string;
+    images?: { url: string }[];
+    album_type?: 'album' | 'single' | 'compilation';
+    release_date?: string;
+    release_date_precision?: 'year' | 'month' | 'day';
+  };
+  uri: string;
+  popularity?: number;
+  duration_ms?: number;
+  external_ids?: { isrc?: string }; // The ISRC identifies a recording across releases
+  // Only present when requested for a market
+  is_playable?: boolean;
+  linked_from?: { id: string; uri: string }; // The requested track, when Spotify relinked it to a playable one
+  restrictions?: { reason: string };
+  versionType?: TrackVersionType;    // Set by the app (lib/trackVersions.ts), not by Spotify
+}
+
+export interface SpotifyArtist {
+  id: string;
+  name: string;
+  images?: { url: string; height?: number; width?: number }[];
+  external_urls?: { spotify: string };
+  genres?: string[];
+  popularity?: number;
+}
+
+export interface SpotifyPagingObject<T> {
+  href: string;
+  items: T[];
+  limit: number;
+  next: string | null;
+  offset: number;
+  previous: string | null;
+  total: number;
+}
+
+export type SpotifySearchType = 'track' | 'artist' | 'album' | 'playlist';
+
+export interface SpotifySearchResponse {
+  tracks?: SpotifyPagingObject<SpotifyTrack>;
+  artists?: SpotifyPagingObject<SpotifyArtist>;
+  albums?: SpotifyPagingObject<SpotifySimplifiedAlbum>;
+  playlists?: SpotifyPagingObject<SpotifyPlaylist>;
+}
+
+// Simplified album/track objects returned by the discography endpoints
+export interface SpotifySimplifiedAlbum {
+  id: string;
+  name: string;
+  album_group?: string;
+  album_type: string;
+}
+
+export interface SpotifySimplifiedTrack {
+  id: string;
+  name: string;
+  artists: { id: string; name: string }[];
+  uri: string;
+}
+
+export interface SpotifyAlbumWithTracks extends SpotifySimplifiedAlbum {
+  tracks: SpotifyPagingObject<SpotifySimplifiedTrack>;
+}
+
+export interface SpotifyUserProfile {
+  id: string;
+  display_name: string;
+  email?: string; // Requires user-read-email scope
+  country?: string; // Requires user-read-private scope
+  product?: string; // Requires user-read-private scope
+  external_urls: { spotify: string };
+  href: string;
+  uri: string;
+  images?: { url: string; height: number; width: number }[];
+}
+
+export interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  description: string | null;
+  public: boolean;
+  collaborative: boolean;
+  owner: { id: string; display_name: string };
+  external_urls: { spotify: string };
+  href: string;
+  uri: string;
+  tracks: { href: string; total: number };
+  snapshot_id?: string;
+  // images might be included depending on fields requested
+}
+
+export interface SpotifySnapshotResponse {
+  snapshot_id: string;
+}
+
+// Item of a playlist's tracks listing; `track` is null for unavailable/removed tracks
+export interface SpotifyPlaylistTrackItem {
+  added_at: string | null;
+  track: (Partial<SpotifyTrack> & { uri: string }) | null; // Only `uri` is requested by the sync
+}
+
+// Token endpoint response (client credentials, authorization code and refresh grants)
+export interface SpotifyTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string; // Only for user grants; may be omitted on refresh
+  scope?: string;
+}
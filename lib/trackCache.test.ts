@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getCurrentRequestBudget, RequestBudget, RequestBudgetExceededError, withRequestBudget } from './requestExecutor';
+import { FileCacheStore, MemoryCacheStore, TrackCache, type TrackCacheOptions } from './trackCache';
+
+const options: TrackCacheOptions = { ttlSeconds: 60, staleWhileRevalidate: false, maxStaleSeconds: 300 };
+
+describe('TrackCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads on a miss and serves the stored value until it expires', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    const loader = vi.fn().mockResolvedValueOnce(['first']).mockResolvedValueOnce(['second']);
+
+    expect(await cache.getOrLoad('nova', 'search', loader)).toEqual({ value: ['first'], status: 'miss' });
+    vi.advanceTimersByTime(59_000);
+    expect(await cache.getOrLoad('nova', 'search', loader)).toEqual({ value: ['first'], status: 'hit' });
+    vi.advanceTimersByTime(2_000);
+    expect(await cache.getOrLoad('nova', 'search', loader)).toEqual({ value: ['second'], status: 'miss' });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys entries by artist and strategy', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    await cache.getOrLoad('nova', 'search', async () => 'search');
+    expect((await cache.getOrLoad('nova', 'discography', async () => 'discography')).status).toBe('miss');
+    expect(TrackCache.key('nova', 'search')).toBe('artist-tracks:search:nova');
+  });
+
+  it('bypasses the cache on refresh and stores the new value', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    await cache.getOrLoad('nova', 'search', async () => 'old');
+    expect(await cache.getOrLoad('nova', 'search', async () => 'new', { refresh: true })).toEqual({ value: 'new', status: 'bypass' });
+    expect(await cache.getOrLoad('nova', 'search', async () => 'unused')).toEqual({ value: 'new', status: 'hit' });
+  });
+
+  it('serves stale entries while revalidating in the background', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), { ...options, staleWhileRevalidate: true });
+    await cache.getOrLoad('nova', 'search', async () => 'old');
+    vi.advanceTimersByTime(120_000);
+
+    expect(await cache.getOrLoad('nova', 'search', async () => 'new')).toEqual({ value: 'old', status: 'stale' });
+    await vi.runAllTimersAsync();
+    expect(await cache.getOrLoad('nova', 'search', async () => 'unused')).toEqual({ value: 'new', status: 'hit' });
+  });
+
+  it('reloads entries past the stale window', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), { ...options, staleWhileRevalidate: true });
+    await cache.getOrLoad('nova', 'search', async () => 'old');
+    vi.advanceTimersByTime(400_000);
+    expect(await cache.getOrLoad('nova', 'search', async () => 'new')).toEqual({ value: 'new', status: 'miss' });
+  });
+
+  it('coalesces concurrent loads of the same key', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    const loader = vi.fn(async () => 'tracks');
+    const results = await Promise.all([
+      cache.getOrLoad('nova', 'search', loader),
+      cache.getOrLoad('nova', 'search', loader),
+    ]);
+    expect(results.map(result => result.value)).toEqual(['tracks', 'tracks']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't charge background revalidation to the caller's request budget", async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), { ...options, staleWhileRevalidate: true });
+    await cache.getOrLoad('nova', 'search', async () => 'old');
+    vi.advanceTimersByTime(120_000);
+
+    const budget = new RequestBudget(0);
+    const loader = vi.fn(async () => {
+      getCurrentRequestBudget()?.consume();
+      return 'new';
+    });
+    expect(await withRequestBudget(budget, () => cache.getOrLoad('nova', 'search', loader))).toEqual({ value: 'old', status: 'stale' });
+    await vi.runAllTimersAsync();
+    expect(await cache.getOrLoad('nova', 'search', async () => 'unused')).toEqual({ value: 'new', status: 'hit' });
+    expect(budget.requestsUsed).toBe(0);
+  });
+
+  it("reloads under the caller's own budget when a coalesced load runs out of another's", async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const loader = vi.fn(async () => {
+      await gate;
+      getCurrentRequestBudget()?.consume();
+      return 'tracks';
+    });
+    const spent = withRequestBudget(new RequestBudget(0), () => cache.getOrLoad('nova', 'search', loader));
+    const waiter = new RequestBudget(5);
+    const coalesced = withRequestBudget(waiter, () => cache.getOrLoad('nova', 'search', loader));
+    await vi.runAllTimersAsync();
+    release();
+
+    await expect(spent).rejects.toBeInstanceOf(RequestBudgetExceededError);
+    expect(await coalesced).toEqual({ value: 'tracks', status: 'miss' });
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(waiter.requestsUsed).toBe(1);
+  });
+
+  it('shares budget failures between callers on the same budget', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    const loader = vi.fn(async () => {
+      getCurrentRequestBudget()?.consume();
+      return 'tracks';
+    });
+    const results = await withRequestBudget(new RequestBudget(0), () => Promise.allSettled([
+      cache.getOrLoad('nova', 'search', loader),
+      cache.getOrLoad('nova', 'search', loader),
+    ]));
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't store failed loads", async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    await expect(cache.getOrLoad('nova', 'search', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await cache.getOrLoad('nova', 'search', async () => 'tracks')).toEqual({ value: 'tracks', status: 'miss' });
+  });
+
+  it('invalidates the given strategies and reports how many entries it removed', async () => {
+    const cache = new TrackCache(new MemoryCacheStore(), options);
+    await cache.getOrLoad('nova', 'search', async () => 'search');
+    await cache.getOrLoad('nova', 'discography', async () => 'discography');
+    expect(await cache.invalidate('nova', ['search', 'discography', 'other'])).toBe(2);
+    expect((await cache.getOrLoad('nova', 'search', async () => 'again')).status).toBe('miss');
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'track-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips, deletes and clears entries', async () => {
+    const store = new FileCacheStore(path.join(directory, 'entries'));
+    const entry = { value: { tracks: [1, 2] }, storedAt: 1, expiresAt: 2 };
+
+    expect(await store.get('missing')).toBeNull();
+    await store.set('key', entry);
+    expect(await store.get('key')).toEqual(entry);
+    expect(await store.delete('key')).toBe(true);
+    expect(await store.delete('key')).toBe(false);
+
+    await store.set('key', entry);
+    await store.clear();
+    expect(await store.get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,209 @@
+// lib/trackCache.ts
+// Pluggable cache for artist track crawls, keyed by artist ID and discovery strategy.
+// Defaults to a file-backed store so results survive server restarts; an in-memory
+// store is available for tests and ephemeral deployments.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getCurrentRequestBudget, RequestBudgetExceededError, withoutRequestBudget, type RequestBudget } from './requestExecutor';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;  // ms since epoch
+  expiresAt: number; // ms since epoch; after this the entry is stale
+}
+
+// Minimal key/value contract a cache backend has to fulfil
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.entries.get(key) as CacheEntry<T> | undefined) ?? null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// Stores one JSON file per key, named by the key's hash
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf8');
+      const stored = JSON.parse(raw) as { key: string; entry: CacheEntry<T> };
+      return stored.key === key ? stored.entry : null; // Guard against (unlikely) hash collisions
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[TrackCache] Failed to read cache entry for ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(key);
+    // Write to a temporary file and rename so readers never see a half-written entry
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ key, entry }), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+export interface TrackCacheOptions {
+  ttlSeconds: number;
+  // When true, expired entries (up to maxStaleSeconds old) are returned immediately
+  // while a fresh copy is loaded in the background
+  staleWhileRevalidate: boolean;
+  maxStaleSeconds: number;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'stale' | 'bypass';
+
+export class TrackCache {
+  // Coalesces concurrent loads of the same key; `budget` is the request budget the load is charged to
+  private inFlight = new Map<string, { promise: Promise<unknown>; budget: RequestBudget | undefined }>();
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly options: TrackCacheOptions
+  ) {}
+
+  static key(artistId: string, strategy: string): string {
+    return `artist-tracks:${strategy}:${artistId}`;
+  }
+
+  // Returns the cached value for an artist/strategy pair, calling `loader` on a miss
+  async getOrLoad<T>(
+    artistId: string,
+    strategy: string,
+    loader: () => Promise<T>,
+    { refresh = false }: { refresh?: boolean } = {}
+  ): Promise<{ value: T; status: CacheStatus }> {
+    const key = TrackCache.key(artistId, strategy);
+
+    if (!refresh) {
+      const entry = await this.store.get<T>(key);
+      const now = Date.now();
+      if (entry && now < entry.expiresAt) {
+        return { value: entry.value, status: 'hit' };
+      }
+      if (entry && this.options.staleWhileRevalidate && now < entry.expiresAt + this.options.maxStaleSeconds * 1000) {
+        // Serve stale data now, refresh in the background without charging this caller's request budget
+        withoutRequestBudget(() => this.load(key, loader)).catch(error => {
+          console.error(`[TrackCache] Background revalidation failed for ${key}:`, error);
+        });
+        return { value: entry.value, status: 'stale' };
+      }
+    }
+
+    const value = await this.load(key, loader);
+    return { value, status: refresh ? 'bypass' : 'miss' };
+  }
+
+  private async load<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const budget = getCurrentRequestBudget();
+    for (;;) {
+      const pending = this.inFlight.get(key);
+      if (!pending) {
+        return this.start(key, loader, budget);
+      }
+      try {
+        return (await pending.promise) as T;
+      } catch (error: unknown) {
+        // Another caller running out of budget says nothing about ours; load again under our own
+        if (error instanceof RequestBudgetExceededError && pending.budget !== budget) continue;
+        throw error;
+      }
+    }
+  }
+
+  private start<T>(key: string, loader: () => Promise<T>, budget: RequestBudget | undefined): Promise<T> {
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        const now = Date.now();
+        await this.store.set(key, { value, storedAt: now, expiresAt: now + this.options.ttlSeconds * 1000 });
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, { promise, budget });
+    return promise;
+  }
+
+  // Removes cached tracks for an artist, for one strategy or all of them
+  async invalidate(artistId: string, strategies: string[]): Promise<number> {
+    const results = await Promise.all(strategies.map(strategy => this.store.delete(TrackCache.key(artistId, strategy))));
+    return results.filter(Boolean).length;
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+// --- Shared instance, configured from environment variables ---
+// TRACK_CACHE_STORE: 'file' (default) or 'memory'
+// TRACK_CACHE_DIR: directory for the file store (default: .cache/artist-tracks)
+// TRACK_CACHE_TTL_SECONDS: freshness window (default: 24h)
+// TRACK_CACHE_STALE_WHILE_REVALIDATE: 'true' to serve stale entries while refreshing
+// TRACK_CACHE_MAX_STALE_SECONDS: how long past expiry a stale entry may be served (default: 7 days)
+
+let sharedCache: TrackCache | null = null;
+
+export function getTrackCache(): TrackCache {
+  if (!sharedCache) {
+    const store = process.env.TRACK_CACHE_STORE === 'memory'
+      ? new MemoryCacheStore()
+      : new FileCacheStore(process.env.TRACK_CACHE_DIR || path.join(process.cwd(), '.cache', 'artist-tracks'));
+    sharedCache = new TrackCache(store, {
+      ttlSeconds: Number(process.env.TRACK_CACHE_TTL_SECONDS) || 24 * 60 * 60,
+      staleWhileRevalidate: process.env.TRACK_CACHE_STALE_WHILE_REVALIDATE === 'true',
+      maxStaleSeconds: Number(process.env.TRACK_CACHE_MAX_STALE_SECONDS) || 7 * 24 * 60 * 60,
+    });
+  }
+  return sharedCache;
+}
+
+// Replaces the shared instance (e.g. with a MemoryCacheStore-backed cache in tests)
+export function setTrackCache(cache: TrackCache | null): void {
+  sharedCache = cache;
+}
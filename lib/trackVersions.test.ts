@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { SpotifyTrack } from './spotifyTypes';
+import {
+  canonicalizeTracks,
+  classifyTrackVersion,
+  compareVersions,
+  normalizeTrackTitle,
+  recordingKey,
+  remixerIds,
+  tagTrackVersions,
+  versionTypeOf,
+} from './trackVersions';
+
+function track(id: string, overrides: Partial<SpotifyTrack> = {}): SpotifyTrack {
+  return {
+    id,
+    name: 'Glass Harbor',
+    artists: [{ id: 'nova', name: 'Nova Vale' }],
+    album: { name: 'Glass Harbor' },
+    uri: `spotify:track:${id}`,
+    ...overrides,
+  };
+}
+
+describe('normalizeTrackTitle', () => {
+  it('strips edition annotations, accents and punctuation', () => {
+    expect(normalizeTrackTitle('Glass Harbor - 2011 Remaster')).toBe('glass harbor');
+    expect(normalizeTrackTitle('Glass Harbor (feat. Kestrel) [Deluxe Edition]')).toBe('glass harbor');
+    expect(normalizeTrackTitle('Café & Rain!')).toBe('cafe and rain');
+  });
+
+  it('keeps annotations that make a different recording', () => {
+    expect(normalizeTrackTitle('Glass Harbor (Live)')).toBe('glass harbor live');
+  });
+});
+
+describe('recordingKey', () => {
+  it('uses the ISRC when there is one', () => {
+    expect(recordingKey(track('1', { external_ids: { isrc: ' usabc1234567 ' } }))).toBe('isrc:USABC1234567');
+  });
+
+  it('falls back to title, duration bucket and artists', () => {
+    const a = track('1', { name: 'Glass Harbor - Remastered', duration_ms: 200_100 });
+    const b = track('2', { name: 'Glass Harbor', duration_ms: 200_400 });
+    const other = track('3', { name: 'Glass Harbor', duration_ms: 230_000 });
+    expect(recordingKey(a)).toBe(recordingKey(b));
+    expect(recordingKey(a)).not.toBe(recordingKey(other));
+  });
+});
+
+describe('compareVersions', () => {
+  it('prefers original albums, then popularity, then the earliest release', () => {
+    const album = track('album', { album: { name: 'A', album_type: 'album' }, popularity: 10 });
+    const compilation = track('compilation', { album: { name: 'C', album_type: 'compilation' }, popularity: 90 });
+    const popular = track('popular', { album: { name: 'A', album_type: 'album' }, popularity: 50 });
+    const early = track('early', { album: { name: 'A', album_type: 'album', release_date: '2001' }, popularity: 10 });
+    expect(compareVersions(album, compilation)).toBeLessThan(0);
+    expect(compareVersions(popular, album)).toBeLessThan(0);
+    expect(compareVersions(early, album)).toBeLessThan(0);
+  });
+});
+
+describe('canonicalizeTracks', () => {
+  it('keeps the preferred version of each recording at its first position', () => {
+    const single = track('single', { external_ids: { isrc: 'ISRC1' }, album: { name: 'S', album_type: 'single' } });
+    const other = track('other', { name: 'Other Song', external_ids: { isrc: 'ISRC2' } });
+    const album = track('album', { external_ids: { isrc: 'ISRC1' }, album: { name: 'A', album_type: 'album' } });
+    expect(canonicalizeTracks([single, other, album]).map(song => song.id)).toEqual(['album', 'other']);
+  });
+
+  it('keeps different recordings apart', () => {
+    const tracks = [track('1', { external_ids: { isrc: 'ISRC1' } }), track('2', { external_ids: { isrc: 'ISRC2' } })];
+    expect(canonicalizeTracks(tracks)).toEqual(tracks);
+  });
+});
+
+describe('classifyTrackVersion', () => {
+  const classify = (name: string, albumName = 'Glass Harbor') => classifyTrackVersion({ name, album: { name: albumName } });
+
+  it('classifies from title annotations', () => {
+    expect(classify('Glass Harbor')).toBe('original');
+    expect(classify('Glass Harbor - DJ Orrin Remix')).toBe('remix');
+    expect(classify('Glass Harbor (Extended Mix)')).toBe('remix');
+    expect(classify('Glass Harbor - Live at the Roundhouse')).toBe('live');
+    expect(classify('Glass Harbor (Acoustic)')).toBe('acoustic');
+    expect(classify('Glass Harbor (Sped Up)')).toBe('sped_up');
+    expect(classify('Glass Harbor [Instrumental]')).toBe('karaoke');
+  });
+
+  it('classifies from the album name', () => {
+    expect(classify('Glass Harbor', 'Glass Harbor (The Remixes)')).toBe('remix');
+    expect(classify('Glass Harbor', 'Live from Brixton')).toBe('live');
+  });
+
+  it('ignores words outside annotations', () => {
+    expect(classify('Live Wire')).toBe('original');
+    expect(classify('Remix Culture')).toBe('original');
+  });
+
+  it('prefers the more specific type when several match', () => {
+    expect(classify('Glass Harbor (Sped Up Remix)')).toBe('sped_up');
+  });
+});
+
+describe('version tags', () => {
+  it('tags untagged tracks and keeps existing tags', () => {
+    const [tagged, kept] = tagTrackVersions([
+      track('1', { name: 'Glass Harbor (Live)' }),
+      track('2', { name: 'Glass Harbor (Live)', versionType: 'original' }),
+    ]);
+    expect(tagged.versionType).toBe('live');
+    expect(versionTypeOf(kept)).toBe('original');
+  });
+});
+
+describe('remixerIds', () => {
+  it('finds the artists named in the remix annotation', () => {
+    const remix = track('1', {
+      name: 'Glass Harbor - DJ Orrin Remix',
+      artists: [{ id: 'nova', name: 'Nova Vale' }, { id: 'orrin', name: 'DJ Orrin' }],
+    });
+    expect(remixerIds(remix)).toEqual(new Set(['orrin']));
+  });
+
+  it('is empty for tracks that are not remixes', () => {
+    const original = track('1', { artists: [{ id: 'nova', name: 'Nova Vale' }, { id: 'orrin', name: 'DJ Orrin' }] });
+    expect(remixerIds(original).size).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+// lib/trackVersions.ts
+// Recognizes the same recording released several times (album, single, deluxe edition,
+// compilation...) and picks one preferred version of it. Recordings are identified by ISRC,
+// falling back to the normalized title, duration and artists for tracks without one.
+// Also classifies versions (remix, live, acoustic, sped up, karaoke) from title/album annotations.
+import type { SpotifyTrack } from './spotifyTypes';
+
+// Durations are compared in buckets of this size, so re-releases with slightly different
+// lengths still match (fallback key only)
+const DURATION_BUCKET_MS = 2000;
+
+// Release annotations that don't make a different recording, e.g. "(feat. X)", "- 2011 Remaster"
+const EDITION_SUFFIX = /\s*(?:[-–]\s*|[([]\s*)(?:feat\.?|ft\.?|featuring|with|(?:\d{4}\s+)?remaster(?:ed)?(?:\s+\d{4})?|(?:\d+\w*\s+)?anniversary(?:\s+edition)?|deluxe(?:\s+edition)?|expanded(?:\s+edition)?|bonus\s+track)\b[^)\]]*[)\]]?\s*$/i;
+
+// Lower-cased title without edition annotations or punctuation
+export function normalizeTrackTitle(title: string): string {
+  let normalized = title;
+  for (let previous = ''; previous !== normalized;) {
+    previous = normalized;
+    normalized = normalized.replace(EDITION_SUFFIX, '');
+  }
+  return normalized
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Key shared by every release of the same recording
+export function recordingKey(track: Pick<SpotifyTrack, 'name' | 'artists' | 'duration_ms' | 'external_ids'>): string {
+  const isrc = track.external_ids?.isrc?.trim().toUpperCase();
+  if (isrc) return `isrc:${isrc}`;
+  const artistIds = Array.from(new Set(track.artists.map(artist => artist.id))).sort().join(',');
+  const duration = track.duration_ms !== undefined ? Math.round(track.duration_ms / DURATION_BUCKET_MS) : '?';
+  return `title:${normalizeTrackTitle(track.name)}|${duration}|${artistIds}`;
+}
+
+// Original albums first, then singles, then compilations
+const ALBUM_TYPE_RANK: Record<string, number> = { album: 0, single: 1, compilation: 2 };
+
+// Sortable "YYYY-MM-DD" key; unknown dates sort last
+function releaseDateKey(track: SpotifyTrack): string {
+  const date = track.album.release_date;
+  if (!date) return '9999';
+  const [year, month = '01', day = '01'] = date.split('-');
+  return `${year}-${month}-${day}`;
+}
+
+// Negative when `a` is the better version: original album over compilation, then the most
+// popular, then the earliest release
+export function compareVersions(a: SpotifyTrack, b: SpotifyTrack): number {
+  const rank = (track: SpotifyTrack) => ALBUM_TYPE_RANK[track.album.album_type ?? ''] ?? 1;
+  return rank(a) - rank(b)
+    || (b.popularity ?? 0) - (a.popularity ?? 0)
+    || releaseDateKey(a).localeCompare(releaseDateKey(b));
+}
+
+// Collapses every group of versions of the same recording into its preferred version. The
+// result keeps the position of each recording's first occurrence.
+export function canonicalizeTracks(tracks: SpotifyTrack[]): SpotifyTrack[] {
+  const preferred = new Map<string, SpotifyTrack>();
+  tracks.forEach(track => {
+    const key = recordingKey(track);
+    const current = preferred.get(key);
+    if (!current || compareVersions(track, current) < 0) {
+      preferred.set(key, track);
+    }
+  });
+  return Array.from(preferred.values());
+}
+
+// --- Version types ---
+
+export type TrackVersionType = 'original' | 'remix' | 'live' | 'acoustic' | 'sped_up' | 'karaoke';
+
+export const TRACK_VERSION_TYPES: { id: TrackVersionType; label: string }[] = [
+  { id: 'original', label: 'Originals' },
+  { id: 'remix', label: 'Remixes' },
+  { id: 'live', label: 'Live' },
+  { id: 'acoustic', label: 'Acoustic' },
+  { id: 'sped_up', label: 'Sped up / slowed' },
+  { id: 'karaoke', label: 'Karaoke / instrumental' },
+];
+
+export function isTrackVersionType(value: unknown): value is TrackVersionType {
+  return TRACK_VERSION_TYPES.some(type => type.id === value);
+}
+
+// Checked in this order on the title's and album name's annotations, so e.g. a sped-up remix is 'sped_up'
+const VERSION_PATTERNS: [Exclude<TrackVersionType, 'original'>, RegExp][] = [
+  ['karaoke', /\bkaraoke\b|\binstrumental\b|originally performed by|in the style of/i],
+  ['sped_up', /\bsped[\s-]?up\b|\bspeed[\s-]?up\b|\bslowed\b|\bnightcore\b|\breverb\b/i],
+  ['live', /\blive\b/i],
+  ['acoustic', /\bacoustic\b|\bunplugged\b|\bstripped\b/i],
+  ['remix', /\bremix(?:es|ed)?\b|\brework\b|\bbootleg\b|\bflip\b|\bvip\b|\b(?:club|extended|dub)\s+mix\b/i],
+];
+
+// The parts of a title that describe the version: "- ..." suffixes and (...)/[...] groups
+function versionAnnotations(name: string): string[] {
+  const annotations = Array.from(name.matchAll(/[([]([^)\]]*)[)\]]/g), match => match[1]);
+  const dash = name.match(/\s[-–]\s(.+)$/);
+  if (dash) annotations.push(dash[1]);
+  return annotations;
+}
+
+// Classifies a track from its title and album name annotations, e.g. "Song - Live at X",
+// "Song (Acoustic)", an album "Hits (Remixes)" or "Live from Y"
+export function classifyTrackVersion(track: Pick<SpotifyTrack, 'name' | 'album'>): TrackVersionType {
+  const albumName = track.album?.name || '';
+  const annotations = [...versionAnnotations(track.name), ...versionAnnotations(albumName)];
+  if (/^live\s+(?:at|from|in|on)\b/i.test(albumName)) annotations.push('live');
+  for (const [type, pattern] of VERSION_PATTERNS) {
+    if (annotations.some(annotation => pattern.test(annotation))) return type;
+  }
+  return 'original';
+}
+
+// The track's version type, classifying it if it hasn't been tagged yet
+export function versionTypeOf(track: SpotifyTrack): TrackVersionType {
+  return track.versionType ?? classifyTrackVersion(track);
+}
+
+export function tagTrackVersions(tracks: SpotifyTrack[]): SpotifyTrack[] {
+  return tracks.map(track => (track.versionType ? track : { ...track, versionType: classifyTrackVersion(track) }));
+}
+
+// Artists credited on a remix because they made the remix: their name appears in the
+// track title's remix annotation (e.g. "Song - DJ X Remix")
+export function remixerIds(track: SpotifyTrack): Set<string> {
+  if (versionTypeOf(track) !== 'remix') return new Set();
+  const remixAnnotations = versionAnnotations(track.name)
+    .filter(annotation => VERSION_PATTERNS.some(([type, pattern]) => type === 'remix' && pattern.test(annotation)))
+    .map(annotation => annotation.toLowerCase());
+  return new Set(track.artists
+    .filter(artist => remixAnnotations.some(annotation => annotation.includes(artist.name.toLowerCase())))
+    .map(artist => artist.id));
+}
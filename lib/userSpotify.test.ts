@@ -0,0 +1,173 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UpstreamError } from './apiErrors';
+import { encryptSessionCookie, SESSION_COOKIE_NAME, SessionManager, setSessionManager, type Session } from './session';
+import type { SpotifyTokenResponse } from './spotifyTypes';
+import { MemoryCacheStore } from './trackCache';
+import { refreshSession, withUserSpotify } from './userSpotify';
+
+const { refreshAccessToken, cookieJar } = vi.hoisted(() => ({
+  refreshAccessToken: vi.fn(),
+  cookieJar: new Map<string, string>(),
+}));
+
+vi.mock('./spotifyClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('./spotifyClient')>()),
+  getAppSpotifyClient: () => ({ refreshAccessToken }),
+}));
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+
+const tokens = (overrides: Partial<SpotifyTokenResponse> = {}): SpotifyTokenResponse => ({
+  access_token: 'new-access',
+  token_type: 'Bearer',
+  expires_in: 3600,
+  ...overrides,
+});
+
+describe('user token refresh', () => {
+  let manager: SessionManager;
+
+  // A session whose access token expires in `expiresInMs`
+  const startSession = (expiresInMs: number) => manager.create({
+    accessToken: 'old-access',
+    refreshToken: 'old-refresh',
+    accessTokenExpiresAt: Date.now() + expiresInMs,
+    scopes: ['playlist-modify-private'],
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('COOKIE_SECRET', 'test secret');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    manager = new SessionManager(new MemoryCacheStore(), { ttlSeconds: 3600 });
+    setSessionManager(manager);
+    refreshAccessToken.mockReset();
+    cookieJar.clear();
+  });
+
+  afterEach(() => {
+    setSessionManager(null);
+    vi.unstubAllEnvs();
+  });
+
+  describe('refreshSession', () => {
+    it('shares one token request between concurrent refreshes', async () => {
+      const session = await startSession(60_000);
+      let respond!: (value: SpotifyTokenResponse) => void;
+      refreshAccessToken.mockReturnValue(new Promise(resolve => { respond = resolve; }));
+
+      const first = refreshSession(session.id, 'old-access');
+      const second = refreshSession(session.id, 'old-access');
+      respond(tokens());
+
+      expect((await first)?.accessToken).toBe('new-access');
+      expect((await second)?.accessToken).toBe('new-access');
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(refreshAccessToken).toHaveBeenCalledWith('old-refresh');
+    });
+
+    it("doesn't refresh again once another request has replaced the token", async () => {
+      const session = await startSession(60_000);
+      refreshAccessToken.mockResolvedValue(tokens());
+      await refreshSession(session.id, 'old-access');
+
+      expect((await refreshSession(session.id, 'old-access'))?.accessToken).toBe('new-access');
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('persists a rotated refresh token', async () => {
+      const session = await startSession(60_000);
+      refreshAccessToken.mockResolvedValue(tokens({ refresh_token: 'rotated-refresh' }));
+
+      await refreshSession(session.id, 'old-access');
+      expect(await manager.get(session.id)).toMatchObject({ accessToken: 'new-access', refreshToken: 'rotated-refresh' });
+    });
+
+    it('keeps the refresh token when Spotify does not rotate it', async () => {
+      const session = await startSession(60_000);
+      refreshAccessToken.mockResolvedValue(tokens());
+
+      await refreshSession(session.id, 'old-access');
+      expect(await manager.get(session.id)).toMatchObject({ refreshToken: 'old-refresh', scopes: ['playlist-modify-private'] });
+    });
+
+    it('ends the session when the refresh token is rejected', async () => {
+      const session = await startSession(60_000);
+      refreshAccessToken.mockResolvedValue(null); // invalid_grant
+
+      expect(await refreshSession(session.id, 'old-access')).toBeNull();
+      expect(await manager.get(session.id)).toBeNull();
+    });
+
+    it('keeps the session when the refresh fails transiently', async () => {
+      const session = await startSession(60_000);
+      refreshAccessToken.mockRejectedValueOnce(new UpstreamError('Spotify is down')).mockResolvedValueOnce(tokens());
+
+      await expect(refreshSession(session.id, 'old-access')).rejects.toThrow('Spotify is down');
+      expect(await manager.get(session.id)).toMatchObject({ accessToken: 'old-access', refreshToken: 'old-refresh' });
+      // The failed refresh isn't cached, so the next request tries again
+      expect((await refreshSession(session.id, 'old-access'))?.accessToken).toBe('new-access');
+    });
+  });
+
+  describe('withUserSpotify', () => {
+    const handler = vi.fn(async (_request: NextRequest, { session }: { session: Session }) => Response.json({ accessToken: session.accessToken }));
+    const route = withUserSpotify(handler);
+    const call = () => route(new NextRequest('http://localhost/api/me'), {});
+
+    const logIn = async (expiresInMs: number) => {
+      const session = await startSession(expiresInMs);
+      cookieJar.set(SESSION_COOKIE_NAME, encryptSessionCookie(session.id));
+      return session;
+    };
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it('rejects requests without a session', async () => {
+      expect((await call()).status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('refreshes tokens that are about to expire', async () => {
+      await logIn(60_000);
+      refreshAccessToken.mockResolvedValue(tokens());
+      expect(await (await call()).json()).toEqual({ accessToken: 'new-access' });
+    });
+
+    it('uses the current token when a proactive refresh fails transiently', async () => {
+      const session = await logIn(60_000);
+      refreshAccessToken.mockRejectedValue(new UpstreamError('Spotify is down'));
+      expect(await (await call()).json()).toEqual({ accessToken: 'old-access' });
+      expect(await manager.get(session.id)).not.toBeNull();
+    });
+
+    it('answers with the error when an expired token cannot be refreshed, keeping the session', async () => {
+      const session = await logIn(-1_000);
+      refreshAccessToken.mockRejectedValue(new UpstreamError('Spotify is down'));
+      expect((await call()).status).toBe(502);
+      expect(handler).not.toHaveBeenCalled();
+      expect(await manager.get(session.id)).not.toBeNull();
+      expect(cookieJar.has(SESSION_COOKIE_NAME)).toBe(true);
+    });
+
+    it('logs the user out when the refresh token is rejected', async () => {
+      const session = await logIn(60_000);
+      refreshAccessToken.mockResolvedValue(null);
+      const response = await call();
+      expect(response.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+      expect(await manager.get(session.id)).toBeNull();
+      expect(cookieJar.has(SESSION_COOKIE_NAME)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// lib/userSpotify.ts
+// withUserSpotify: wraps route handlers that act on behalf of the logged-in user. It loads the
+// session, refreshes the access token shortly before it expires (or after a 401), persists
+// rotated refresh tokens, and coalesces concurrent refreshes of the same session.
+import type { NextRequest } from 'next/server';
+import { AuthError, errorResponse } from './apiErrors';
+import { createUserSpotifyClient, getAppSpotifyClient, type SpotifyClient } from './spotifyClient';
+import { destroySession, getSession, getSessionManager, updateSessionTokens, type Session } from './session';
+
+// Refresh proactively when the access token has less than this left
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Thrown by the user client when the session can't be refreshed (answered with 401)
+export class SessionExpiredError extends AuthError {
+  constructor() {
+    super('Authentication session expired. Please log in again.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export interface UserSpotifyContext {
+  client: SpotifyClient; // User-mode client that refreshes the session on 401
+  session: Session;      // The session as of the start of the request
+}
+
+// In-flight refreshes by session ID. Kept on globalThis because route handlers may be
+// bundled separately, each with its own copy of this module.
+const refreshGlobals = globalThis as typeof globalThis & { __sessionRefreshes?: Map<string, Promise<Session | null>> };
+const pendingRefreshes = (refreshGlobals.__sessionRefreshes ??= new Map());
+
+function isNearExpiry(session: Session): boolean {
+  return session.accessTokenExpiresAt - Date.now() < REFRESH_MARGIN_MS;
+}
+
+// Refreshes the session's tokens unless another request already replaced `staleAccessToken`.
+// Returns the updated session, or null (after deleting the session) if Spotify rejected the
+// refresh token. Transient failures (network, 5xx, 429) are thrown and leave the session in place.
+export function refreshSession(sessionId: string, staleAccessToken: string): Promise<Session | null> {
+  const pending = pendingRefreshes.get(sessionId);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const manager = getSessionManager();
+    // Re-read the session: a concurrent request may have refreshed (and rotated) the tokens already
+    const latest = await manager.get(sessionId);
+    if (!latest) return null;
+    if (latest.accessToken !== staleAccessToken && !isNearExpiry(latest)) {
+      return latest;
+    }
+    if (!latest.refreshToken) {
+      console.log(`[UserSpotify] Session has no refresh token, ending it.`);
+      await manager.destroy(sessionId);
+      return null;
+    }
+
+    console.log(`[UserSpotify] Refreshing access token (expires ${new Date(latest.accessTokenExpiresAt).toISOString()}).`);
+    const tokens = await getAppSpotifyClient().refreshAccessToken(latest.refreshToken);
+    if (!tokens?.access_token) {
+      console.error(`[UserSpotify] Refresh token was rejected, ending session.`);
+      await manager.destroy(sessionId);
+      return null;
+    }
+    if (tokens.refresh_token && tokens.refresh_token !== latest.refreshToken) {
+      console.log(`[UserSpotify] Spotify rotated the refresh token; storing the new one.`);
+    }
+    return updateSessionTokens(latest, tokens);
+  })().finally(() => pendingRefreshes.delete(sessionId));
+
+  pendingRefreshes.set(sessionId, refresh);
+  return refresh;
+}
+
+// Wraps a route handler that needs the user's Spotify access. Requests without a valid
+// session get a 401 before the handler runs; errors the handler throws are answered with
+// the JSON error envelope (see lib/apiErrors.ts).
+export function withUserSpotify<C>(
+  handler: (request: NextRequest, spotify: UserSpotifyContext, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    let session = await getSession();
+    if (!session) {
+      return errorResponse(new AuthError());
+    }
+
+    if (isNearExpiry(session)) {
+      let refreshed: Session | null;
+      try {
+        refreshed = await refreshSession(session.id, session.accessToken);
+      } catch (error: unknown) {
+        // Spotify is unreachable for now: carry on with the current token while it's still valid
+        if (session.accessTokenExpiresAt <= Date.now()) {
+          console.error(`[UserSpotify] Token refresh failed for ${request.nextUrl.pathname}:`, error);
+          return errorResponse(error);
+        }
+        console.warn(`[UserSpotify] Proactive token refresh failed, using the current token:`, error);
+        refreshed = session;
+      }
+      if (!refreshed) {
+        await destroySession();
+        return errorResponse(new SessionExpiredError());
+      }
+      session = refreshed;
+    }
+
+    const sessionId = session.id;
+    let currentAccessToken = session.accessToken;
+    const client = createUserSpotifyClient(currentAccessToken, async () => {
+      const refreshed = await refreshSession(sessionId, currentAccessToken);
+      if (!refreshed) {
+        await destroySession();
+        throw new SessionExpiredError();
+      }
+      currentAccessToken = refreshed.accessToken;
+      return refreshed.accessToken;
+    });
+
+    try {
+      return await handler(request, { client, session }, context);
+    } catch (error: unknown) {
+      console.error(`[UserSpotify] Handler for ${request.nextUrl.pathname} failed:`, error);
+      return errorResponse(error);
+    }
+  };
+}
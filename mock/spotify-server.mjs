@@ -0,0 +1,465 @@
+// mock/spotify-server.mjs
+// Offline stand-in for accounts.spotify.com and api.spotify.com, backed by a JSON fixture catalog.
+// Implements only the endpoints the app uses. Start with `npm run mock:spotify` and point the app at it:
+//
+//   SPOTIFY_API_BASE_URL=http://localhost:4010/v1/
+//   SPOTIFY_ACCOUNTS_BASE_URL=http://localhost:4010/
+//
+// Options (environment variables):
+//   MOCK_SPOTIFY_PORT         port to listen on (default 4010)
+//   MOCK_SPOTIFY_CATALOG      path to the fixture catalog (default mock/fixtures/catalog.json)
+//   MOCK_RATE_LIMIT_EVERY     answer every Nth API request with 429 + Retry-After: 1 (default off)
+//   MOCK_TOKEN_TTL_SECONDS    lifetime of issued access tokens (default 3600), to exercise token refresh
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PORT = Number(process.env.MOCK_SPOTIFY_PORT) || 4010;
+const CATALOG_PATH = process.env.MOCK_SPOTIFY_CATALOG || path.join(__dirname, 'fixtures', 'catalog.json');
+const RATE_LIMIT_EVERY = Number(process.env.MOCK_RATE_LIMIT_EVERY) || 0;
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_TOKEN_TTL_SECONDS) || 3600;
+const DEFAULT_SCOPES = 'user-read-private user-read-email playlist-modify-private playlist-modify-public';
+
+const catalog = JSON.parse(readFileSync(CATALOG_PATH, 'utf8'));
+const artistsById = new Map(catalog.artists.map(artist => [artist.id, artist]));
+const albumsById = new Map(catalog.albums.map(album => [album.id, album]));
+const tracksById = new Map(catalog.tracks.map(track => [track.id, track]));
+const usersById = new Map(catalog.users.map(user => [user.id, user]));
+const defaultUser = catalog.users[0];
+
+// --- In-memory state ---
+const accessTokens = new Map();   // token -> { userId | null, scope, expiresAt }
+const refreshTokens = new Map();  // refresh token -> { userId, scope }
+const authCodes = new Map();      // code -> { userId, scope, codeChallenge, redirectUri }
+const playlists = new Map();      // playlist id -> playlist with `items` (track URIs)
+let apiRequestCount = 0;
+
+const randomId = (length = 22) => randomBytes(length).toString('base64url').replace(/[-_]/g, 'x').slice(0, length);
+
+// --- Catalog -> Spotify object shapes ---
+const baseUrl = req => `http://${req.headers.host}`;
+
+const artistRef = (req, id) => {
+  const artist = artistsById.get(id);
+  return {
+    id,
+    name: artist?.name ?? 'Unknown Artist',
+    type: 'artist',
+    uri: `spotify:artist:${id}`,
+    href: `${baseUrl(req)}/v1/artists/${id}`,
+    external_urls: { spotify: `https://open.spotify.com/artist/${id}` },
+  };
+};
+
+const fullArtist = (req, artist) => ({
+  ...artistRef(req, artist.id),
+  genres: artist.genres ?? [],
+  popularity: artist.popularity ?? 0,
+  images: [],
+  followers: { href: null, total: 0 },
+});
+
+const simplifiedAlbum = (req, album, artistId) => ({
+  id: album.id,
+  name: album.name,
+  album_type: album.album_type,
+  // album_group is relative to the artist whose albums are being listed
+  album_group: artistId && !album.artists.includes(artistId) ? 'appears_on' : album.album_type,
+  release_date: album.release_date,
+  release_date_precision: 'day',
+  total_tracks: album.tracks.length,
+  artists: album.artists.map(id => artistRef(req, id)),
+  images: [],
+  uri: `spotify:album:${album.id}`,
+  href: `${baseUrl(req)}/v1/albums/${album.id}`,
+});
+
+// With a `market`, fixture tracks listing `markets` are only playable there, and `relinks`
+// maps a market to the track served in its place (with `linked_from` pointing at the original)
+const marketTrack = (track, market) => (market && track.relinks?.[market] ? tracksById.get(track.relinks[market]) : track);
+const isPlayableIn = (track, market) => !market || !track.markets || track.markets.includes(market);
+
+const simplifiedTrack = (req, requested, market) => {
+  const track = marketTrack(requested, market);
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map(id => artistRef(req, id)),
+    duration_ms: track.duration_ms,
+    track_number: albumsById.get(track.album)?.tracks.indexOf(track.id) + 1,
+    uri: `spotify:track:${track.id}`,
+    href: `${baseUrl(req)}/v1/tracks/${track.id}`,
+    is_playable: isPlayableIn(track, market),
+    ...(isPlayableIn(track, market) ? {} : { restrictions: { reason: 'market' } }),
+    ...(track !== requested ? {
+      linked_from: { id: requested.id, uri: `spotify:track:${requested.id}`, href: `${baseUrl(req)}/v1/tracks/${requested.id}` },
+    } : {}),
+  };
+};
+
+const fullTrack = (req, requested, market) => {
+  const track = marketTrack(requested, market);
+  return {
+    ...simplifiedTrack(req, requested, market),
+    album: simplifiedAlbum(req, albumsById.get(track.album)),
+    popularity: track.popularity ?? 0,
+    external_ids: track.isrc ? { isrc: track.isrc } : {},
+  };
+};
+
+// Playlist as returned by the API (items are listed separately)
+const playlistObject = ({ items, ...playlist }) => ({
+  ...playlist,
+  tracks: { href: `${playlist.href}/tracks`, total: items.length },
+});
+
+// Public playlists are readable by anyone; private ones by their owner with playlist-read-private
+const canReadPlaylist = (playlist, token) =>
+  playlist.public || (playlist.owner.id === token.userId && token.scope.split(' ').includes('playlist-read-private'));
+
+// Builds a Spotify paging object with `next`/`previous` links that preserve the other query params
+const paging = (req, url, items, { limit, offset }) => {
+  const page = items.slice(offset, offset + limit);
+  const link = newOffset => {
+    const linkUrl = new URL(url.pathname + url.search, baseUrl(req));
+    linkUrl.searchParams.set('offset', String(newOffset));
+    linkUrl.searchParams.set('limit', String(limit));
+    return linkUrl.toString();
+  };
+  return {
+    href: link(offset),
+    items: page,
+    limit,
+    offset,
+    total: items.length,
+    next: offset + limit < items.length ? link(offset + limit) : null,
+    previous: offset > 0 ? link(Math.max(offset - limit, 0)) : null,
+  };
+};
+
+const pageParams = (url, maxLimit = 50) => ({
+  limit: Math.min(Math.max(Number(url.searchParams.get('limit')) || 20, 1), maxLimit),
+  offset: Math.max(Number(url.searchParams.get('offset')) || 0, 0),
+});
+
+// --- HTTP helpers ---
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const apiError = (res, status, message, reason) =>
+  sendJson(res, status, { error: { status, message, ...(reason ? { reason } : {}) } });
+
+const readBody = req => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const issueTokens = (userId, scope) => {
+  const accessToken = `mock-access-${randomId(32)}`;
+  accessTokens.set(accessToken, { userId, scope, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+  const response = { access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS };
+  if (userId) {
+    const refreshToken = `mock-refresh-${randomId(32)}`;
+    refreshTokens.set(refreshToken, { userId, scope });
+    Object.assign(response, { refresh_token: refreshToken, scope });
+  }
+  return response;
+};
+
+const authenticate = req => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const token = match && accessTokens.get(match[1]);
+  if (!token || token.expiresAt < Date.now()) return null;
+  return token;
+};
+
+// --- Accounts service ---
+async function handleAccounts(req, res, url) {
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri || url.searchParams.get('response_type') !== 'code') {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+    // Auto-approve as the first fixture user
+    const code = `mock-code-${randomId(16)}`;
+    authCodes.set(code, {
+      userId: defaultUser.id,
+      scope: url.searchParams.get('scope') || DEFAULT_SCOPES,
+      codeChallenge: url.searchParams.get('code_challenge'),
+      redirectUri,
+    });
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    const state = url.searchParams.get('state');
+    if (state) target.searchParams.set('state', state);
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/token') {
+    const params = new URLSearchParams(await readBody(req));
+    const grantType = params.get('grant_type');
+
+    if (grantType === 'client_credentials') {
+      if (!req.headers.authorization?.startsWith('Basic ')) {
+        return sendJson(res, 401, { error: 'invalid_client' });
+      }
+      return sendJson(res, 200, issueTokens(null, ''));
+    }
+
+    if (grantType === 'authorization_code') {
+      const code = authCodes.get(params.get('code'));
+      authCodes.delete(params.get('code'));
+      if (!code || code.redirectUri !== params.get('redirect_uri')) {
+        return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Invalid authorization code' });
+      }
+      const verifier = params.get('code_verifier') || '';
+      const challenge = createHash('sha256').update(verifier).digest('base64url');
+      if (code.codeChallenge && code.codeChallenge !== challenge) {
+        return sendJson(res, 400, { error: 'invalid_grant', error_description: 'code_verifier was incorrect' });
+      }
+      return sendJson(res, 200, issueTokens(code.userId, code.scope));
+    }
+
+    if (grantType === 'refresh_token') {
+      const stored = refreshTokens.get(params.get('refresh_token'));
+      if (!stored) {
+        return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Invalid refresh token' });
+      }
+      // Rotate the refresh token, like Spotify may do
+      refreshTokens.delete(params.get('refresh_token'));
+      return sendJson(res, 200, issueTokens(stored.userId, stored.scope));
+    }
+
+    return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  }
+
+  return sendJson(res, 404, { error: 'not_found' });
+}
+
+// --- Web API ---
+const routes = [
+  ['GET', /^\/v1\/search$/, (req, res, url) => {
+    const query = url.searchParams.get('q') || '';
+    const types = (url.searchParams.get('type') || '').split(',');
+    const { limit, offset } = pageParams(url);
+    // Supports the `artist:"Name"` field filter the app uses, plus free text
+    const artistFilter = /artist:"([^"]*)"/.exec(query)?.[1]?.toLowerCase();
+    const freeText = query.replace(/artist:"[^"]*"/, '').trim().toLowerCase();
+    const body = {};
+
+    if (types.includes('artist')) {
+      const matches = catalog.artists.filter(artist => artist.name.toLowerCase().includes((artistFilter ?? freeText)));
+      body.artists = paging(req, url, matches.map(artist => fullArtist(req, artist)), { limit, offset });
+    }
+    if (types.includes('track')) {
+      const matches = catalog.tracks.filter(track => {
+        const names = track.artists.map(id => artistsById.get(id)?.name.toLowerCase() ?? '');
+        if (artistFilter !== undefined && !names.some(name => name.includes(artistFilter))) return false;
+        return !freeText || track.name.toLowerCase().includes(freeText);
+      });
+      body.tracks = paging(req, url, matches.map(track => fullTrack(req, track, url.searchParams.get('market'))), { limit, offset });
+    }
+    sendJson(res, 200, body);
+  }],
+
+  ['GET', /^\/v1\/artists$/, (req, res, url) => {
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean).slice(0, 50);
+    sendJson(res, 200, { artists: ids.map(id => (artistsById.has(id) ? fullArtist(req, artistsById.get(id)) : null)) });
+  }],
+
+  ['GET', /^\/v1\/artists\/([^/]+)$/, (req, res, url, [id]) => {
+    const artist = artistsById.get(id);
+    return artist ? sendJson(res, 200, fullArtist(req, artist)) : apiError(res, 404, 'Resource not found');
+  }],
+
+  ['GET', /^\/v1\/artists\/([^/]+)\/albums$/, (req, res, url, [id]) => {
+    if (!artistsById.has(id)) return apiError(res, 404, 'Resource not found');
+    const groups = (url.searchParams.get('include_groups') || 'album,single,compilation,appears_on').split(',');
+    const albums = catalog.albums
+      .filter(album => album.artists.includes(id) || album.tracks.some(trackId => tracksById.get(trackId)?.artists.includes(id)))
+      .map(album => simplifiedAlbum(req, album, id))
+      .filter(album => groups.includes(album.album_group));
+    sendJson(res, 200, paging(req, url, albums, pageParams(url)));
+  }],
+
+  ['GET', /^\/v1\/albums$/, (req, res, url) => {
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean).slice(0, 20);
+    const albums = ids.map(id => {
+      const album = albumsById.get(id);
+      if (!album) return null;
+      const tracks = album.tracks.map(trackId => simplifiedTrack(req, tracksById.get(trackId), url.searchParams.get('market')));
+      const tracksUrl = new URL(`/v1/albums/${id}/tracks`, baseUrl(req));
+      return { ...simplifiedAlbum(req, album), tracks: paging(req, tracksUrl, tracks, { limit: 50, offset: 0 }) };
+    });
+    sendJson(res, 200, { albums });
+  }],
+
+  ['GET', /^\/v1\/albums\/([^/]+)\/tracks$/, (req, res, url, [id]) => {
+    const album = albumsById.get(id);
+    if (!album) return apiError(res, 404, 'Resource not found');
+    const tracks = album.tracks.map(trackId => simplifiedTrack(req, tracksById.get(trackId), url.searchParams.get('market')));
+    sendJson(res, 200, paging(req, url, tracks, pageParams(url)));
+  }],
+
+  ['GET', /^\/v1\/tracks$/, (req, res, url) => {
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean).slice(0, 50);
+    const market = url.searchParams.get('market');
+    sendJson(res, 200, { tracks: ids.map(id => (tracksById.has(id) ? fullTrack(req, tracksById.get(id), market) : null)) });
+  }],
+
+  ['GET', /^\/v1\/me$/, (req, res, url, params, token) => {
+    const user = usersById.get(token.userId);
+    if (!user) return apiError(res, 401, 'This endpoint requires a user access token');
+    sendJson(res, 200, {
+      ...user,
+      uri: `spotify:user:${user.id}`,
+      href: `${baseUrl(req)}/v1/users/${user.id}`,
+      external_urls: { spotify: `https://open.spotify.com/user/${user.id}` },
+      images: [],
+    });
+  }],
+
+  ['POST', /^\/v1\/users\/([^/]+)\/playlists$/, async (req, res, url, [userId], token) => {
+    if (!token.userId) return apiError(res, 401, 'This endpoint requires a user access token');
+    if (token.userId !== userId) return apiError(res, 403, 'You cannot create a playlist for another user');
+    if (!/playlist-modify-(private|public)/.test(token.scope)) return apiError(res, 403, 'Insufficient client scope');
+    const body = JSON.parse((await readBody(req)) || '{}');
+    if (!body.name) return apiError(res, 400, 'Missing required field: name');
+    const id = `mockplaylist${randomId(10)}`;
+    const playlist = {
+      id,
+      name: body.name,
+      description: body.description ?? null,
+      public: body.public ?? true,
+      collaborative: body.collaborative ?? false,
+      owner: { id: userId, display_name: usersById.get(userId)?.display_name ?? userId },
+      uri: `spotify:playlist:${id}`,
+      href: `${baseUrl(req)}/v1/playlists/${id}`,
+      external_urls: { spotify: `https://open.spotify.com/playlist/${id}` },
+      snapshot_id: randomId(16),
+      items: [],
+    };
+    playlists.set(id, playlist);
+    sendJson(res, 201, playlistObject(playlist));
+  }],
+
+  ['GET', /^\/v1\/me\/playlists$/, (req, res, url, params, token) => {
+    if (!token.userId) return apiError(res, 401, 'This endpoint requires a user access token');
+    const visible = Array.from(playlists.values()).reverse().filter(playlist => canReadPlaylist(playlist, token));
+    sendJson(res, 200, paging(req, url, visible.map(playlistObject), pageParams(url)));
+  }],
+
+  ['GET', /^\/v1\/playlists\/([^/]+)$/, (req, res, url, [id], token) => {
+    const playlist = playlists.get(id);
+    if (!playlist || !canReadPlaylist(playlist, token)) return apiError(res, 404, 'Resource not found');
+    sendJson(res, 200, playlistObject(playlist));
+  }],
+
+  ['POST', /^\/v1\/playlists\/([^/]+)\/tracks$/, async (req, res, url, [id], token) => {
+    const playlist = playlists.get(id);
+    if (!playlist) return apiError(res, 404, 'Resource not found');
+    if (playlist.owner.id !== token.userId) return apiError(res, 403, 'You cannot modify this playlist');
+    const body = JSON.parse((await readBody(req)) || '{}');
+    const uris = body.uris || [];
+    if (uris.length > 100) return apiError(res, 400, 'You can add a maximum of 100 tracks per request.');
+    const position = Number.isInteger(body.position) ? body.position : playlist.items.length;
+    playlist.items.splice(position, 0, ...uris);
+    playlist.snapshot_id = randomId(16);
+    sendJson(res, 201, { snapshot_id: playlist.snapshot_id });
+  }],
+
+  // Reorders items (range_start/insert_before/range_length) or replaces them all (uris)
+  ['PUT', /^\/v1\/playlists\/([^/]+)\/tracks$/, async (req, res, url, [id], token) => {
+    const playlist = playlists.get(id);
+    if (!playlist) return apiError(res, 404, 'Resource not found');
+    if (playlist.owner.id !== token.userId) return apiError(res, 403, 'You cannot modify this playlist');
+    const body = JSON.parse((await readBody(req)) || '{}');
+    if (Array.isArray(body.uris)) {
+      if (body.uris.length > 100) return apiError(res, 400, 'You can add a maximum of 100 tracks per request.');
+      playlist.items = [...body.uris];
+    } else {
+      const { range_start: start, insert_before: before, range_length: length = 1 } = body;
+      const size = playlist.items.length;
+      if (!Number.isInteger(start) || !Number.isInteger(before) || start < 0 || start + length > size || before < 0 || before > size) {
+        return apiError(res, 400, 'Invalid range');
+      }
+      if (before < start || before > start + length) {
+        const moved = playlist.items.splice(start, length);
+        playlist.items.splice(before > start ? before - length : before, 0, ...moved);
+      }
+    }
+    playlist.snapshot_id = randomId(16);
+    sendJson(res, 200, { snapshot_id: playlist.snapshot_id });
+  }],
+
+  // Removes every occurrence of the given track URIs
+  ['DELETE', /^\/v1\/playlists\/([^/]+)\/tracks$/, async (req, res, url, [id], token) => {
+    const playlist = playlists.get(id);
+    if (!playlist) return apiError(res, 404, 'Resource not found');
+    if (playlist.owner.id !== token.userId) return apiError(res, 403, 'You cannot modify this playlist');
+    const body = JSON.parse((await readBody(req)) || '{}');
+    const tracks = body.tracks || [];
+    if (tracks.length > 100) return apiError(res, 400, 'You can remove a maximum of 100 tracks per request.');
+    const removed = new Set(tracks.map(track => track.uri));
+    playlist.items = playlist.items.filter(uri => !removed.has(uri));
+    playlist.snapshot_id = randomId(16);
+    sendJson(res, 200, { snapshot_id: playlist.snapshot_id });
+  }],
+
+  ['GET', /^\/v1\/playlists\/([^/]+)\/tracks$/, (req, res, url, [id], token) => {
+    const playlist = playlists.get(id);
+    if (!playlist || !canReadPlaylist(playlist, token)) return apiError(res, 404, 'Resource not found');
+    const items = playlist.items.map(uri => {
+      const track = tracksById.get(uri.replace('spotify:track:', ''));
+      return { added_at: new Date().toISOString(), track: track ? fullTrack(req, track) : null };
+    });
+    sendJson(res, 200, paging(req, url, items, pageParams(url, 100)));
+  }],
+];
+
+async function handleApi(req, res, url) {
+  apiRequestCount++;
+  if (RATE_LIMIT_EVERY > 0 && apiRequestCount % RATE_LIMIT_EVERY === 0) {
+    return sendJson(res, 429, { error: { status: 429, message: 'API rate limit exceeded' } }, { 'Retry-After': '1' });
+  }
+
+  const token = authenticate(req);
+  if (!token) {
+    return apiError(res, 401, 'Invalid access token');
+  }
+
+  for (const [method, pattern, handler] of routes) {
+    const match = pattern.exec(url.pathname);
+    if (match && req.method === method) {
+      return handler(req, res, url, match.slice(1).map(decodeURIComponent), token);
+    }
+  }
+  return apiError(res, 404, 'Service not found');
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, baseUrl(req));
+  console.log(`[MockSpotify] ${req.method} ${url.pathname}${url.search}`);
+  try {
+    if (url.pathname.startsWith('/v1/')) {
+      await handleApi(req, res, url);
+    } else {
+      await handleAccounts(req, res, url);
+    }
+  } catch (error) {
+    console.error('[MockSpotify] Handler error:', error);
+    if (!res.headersSent) apiError(res, 500, 'Internal mock server error');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[MockSpotify] Listening on http://localhost:${PORT} with ${catalog.artists.length} artists, ${catalog.tracks.length} tracks.`);
+});